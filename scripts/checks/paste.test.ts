@@ -0,0 +1,45 @@
+// ============================
+// FILE: scripts/checks/paste.test.ts
+// onPath lookups against a fake PATH (run with `npm test`)
+// ============================
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { onPath } from "../../src/main/paste";
+
+function fakeBin(files: string[]) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "clipvault-path-"));
+  for (const f of files) fs.writeFileSync(path.join(dir, f), "", { mode: 0o755 });
+  return dir;
+}
+
+test("win32: a command with an extension is found as is", () => {
+  const dir = fakeBin(["powershell.exe"]);
+  try {
+    // lower-case PATHEXT: the fake bin lives on a case-sensitive file system
+    const env = { PATH: ["", dir].join(path.delimiter), PATHEXT: ".com;.exe;.bat" };
+    assert.equal(onPath("powershell.exe", env, "win32"), true);
+    assert.equal(onPath("powershell", env, "win32"), true);
+    assert.equal(onPath("pwsh.exe", env, "win32"), false);
+  } finally {
+    fs.rmSync(dir, { recursive: true });
+  }
+});
+
+test("win32: a bare name only matches with a PATHEXT extension", () => {
+  const dir = fakeBin(["xdotool"]);
+  try {
+    assert.equal(onPath("xdotool", { PATH: dir, PATHEXT: ".EXE" }, "win32"), false);
+    assert.equal(onPath("xdotool", { PATH: dir }, "linux"), true);
+  } finally {
+    fs.rmSync(dir, { recursive: true });
+  }
+});
+
+test("an empty or missing PATH finds nothing", () => {
+  assert.equal(onPath("sh", {}, "linux"), false);
+  assert.equal(onPath("sh", { PATH: "" }, "linux"), false);
+});
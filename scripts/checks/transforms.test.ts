@@ -0,0 +1,53 @@
+// ============================
+// FILE: scripts/checks/transforms.test.ts
+// "Copy as…" transforms on the tricky inputs (run with `npm test`)
+// ============================
+
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { runTransform, type TransformId } from "../../src/renderer/ui/transforms";
+
+function apply(id: TransformId, text: string) {
+  const res = runTransform(id, text);
+  assert.ok(res.ok, `${id} failed: ${res.ok ? "" : res.reason}`);
+  return res.text;
+}
+
+function reason(id: TransformId, text: string) {
+  const res = runTransform(id, text);
+  assert.ok(!res.ok, `${id} should fail on ${JSON.stringify(text)}`);
+  return res.reason;
+}
+
+test("case conversion of non-ASCII text", () => {
+  assert.equal(apply("upper", "straße café"), "STRASSE CAFÉ");
+  assert.equal(apply("lower", "ÇA VA, ΟΔΟΣ"), "ça va, οδος");
+  assert.equal(apply("title", "élan VITAL über-cool"), "Élan Vital Über-Cool");
+  assert.equal(apply("title", "don't stop"), "Don't Stop");
+  // decomposed accent: the combining mark belongs to the word
+  assert.equal(apply("title", "e\u0301cole"), "E\u0301cole");
+  // letters outside the BMP are one code point, two UTF-16 units
+  assert.equal(apply("title", "\u{10428}\u{10428} x"), "\u{10400}\u{10428} X");
+});
+
+test("JSON pretty and minify", () => {
+  assert.equal(apply("jsonPretty", '{"a":[1,{"b":null}]}'), '{\n  "a": [\n    1,\n    {\n      "b": null\n    }\n  ]\n}');
+  assert.equal(apply("jsonMinify", '{\r\n  "a" : "ü"\r\n}\r\n'), '{"a":"ü"}');
+  assert.match(reason("jsonPretty", "{a: 1}"), /^Not valid JSON: /);
+  assert.match(reason("jsonMinify", ""), /^Not valid JSON: /);
+  assert.match(reason("jsonMinify", '{"a": 1,}'), /^Not valid JSON: /);
+});
+
+test("CRLF text keeps its line endings", () => {
+  assert.equal(apply("trim", "  a  \r\n\tb \r\n\r\n"), "a\r\nb");
+  assert.equal(apply("trim", "\r\n  a \n b\n"), "a\nb");
+  assert.equal(apply("sortLines", "b\r\na10\r\na9\r\n"), "a9\r\na10\r\nb\r\n");
+  assert.equal(apply("dedupeLines", "x\r\ny\r\nx"), "x\r\ny");
+  assert.equal(apply("collapse", " a\r\n\r\n b "), "a b");
+});
+
+test("Base64 round trip of non-ASCII text", () => {
+  assert.equal(apply("base64Encode", "ក ü"), "4Z6AIMO8");
+  assert.equal(apply("base64Decode", "4Z6AIMO8"), "ក ü");
+  assert.equal(reason("base64Decode", "/w"), "Base64 does not decode to text");
+});
@@ -0,0 +1,219 @@
+// ============================
+// FILE: src/main/backup.ts
+// JSON backup format + validation
+// ============================
+//
+// {
+//   "app": "clipvault",
+//   "schemaVersion": 1,
+//   "exportedAt": 1760000000000,
+//   "settings": { ... },
+//   "clips": [{ "id", "kind", "text" | "imagePng" (base64), "tags", "pinned", ... }],
+//   "collections": [{ "id", "name", "clipIds" (in collection order) }]
+//
+// rich clips carry "html" and/or "rtf" next to "text"; file clips carry "files" (paths).
+// "collections" is optional; older backups have none.
+// }
+
+export const BACKUP_APP = "clipvault";
+export const BACKUP_SCHEMA_VERSION = 1;
+
+export type BackupClip = {
+  id: string;
+  kind: "text" | "image" | "rich" | "files";
+  text?: string;
+  html?: string;
+  rtf?: string;
+  files?: string[];
+  // base64 PNG
+  imagePng?: string;
+  imageName?: string;
+  createdAt: number;
+  updatedAt?: number;
+  pinned: 0 | 1;
+  // place among the pinned clips, higher first
+  sortOrder?: number;
+  tags: string[];
+  useCount: number;
+  borderColor?: string;
+  bgColor?: string;
+  // detector ids (see sensitive.ts) for a clip holding a detected secret
+  sensitive?: string[];
+  // highlight.js language the user picked for a text or rich clip ("" = plain text); detected ones are not kept
+  language?: string;
+};
+
+export type BackupCollection = {
+  id: string;
+  name: string;
+  clipIds: string[];
+};
+
+export type BackupFile = {
+  app: typeof BACKUP_APP;
+  schemaVersion: number;
+  exportedAt: number;
+  settings: Record<string, unknown>;
+  clips: BackupClip[];
+  collections?: BackupCollection[];
+};
+
+export type RecordError = { index: number; id?: string; reason: string };
+
+export type ParsedBackup =
+  | {
+      ok: true;
+      clips: BackupClip[];
+      collections: BackupCollection[];
+      settings: Record<string, unknown>;
+      errors: RecordError[];
+    }
+  | { ok: false; reason: string };
+
+const PNG_MAGIC = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function isObj(v: unknown): v is Record<string, any> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function optString(v: unknown, field: string): string | undefined {
+  if (v === undefined || v === null) return undefined;
+  if (typeof v !== "string") throw new Error(`${field} must be a string`);
+  return v;
+}
+
+export function decodePng(b64: string): Buffer | null {
+  const buf = Buffer.from(b64, "base64");
+  return buf.length > PNG_MAGIC.length && buf.subarray(0, PNG_MAGIC.length).equals(PNG_MAGIC) ? buf : null;
+}
+
+// throws with a human-readable reason; the caller records it against the clip index
+function parseClip(raw: unknown): BackupClip {
+  if (!isObj(raw)) throw new Error("not an object");
+
+  const id = raw.id;
+  if (typeof id !== "string" || !id.trim()) throw new Error("missing id");
+
+  const kind = raw.kind;
+  if (kind !== "text" && kind !== "image" && kind !== "rich" && kind !== "files") {
+    throw new Error(`unknown kind "${String(kind)}"`);
+  }
+
+  const createdAt = Number(raw.createdAt);
+  if (!Number.isFinite(createdAt) || createdAt <= 0) throw new Error("invalid createdAt");
+
+  const updatedAt = raw.updatedAt == null ? undefined : Number(raw.updatedAt);
+  if (updatedAt !== undefined && !Number.isFinite(updatedAt)) throw new Error("invalid updatedAt");
+
+  const tags = raw.tags ?? [];
+  if (!Array.isArray(tags) || tags.some((t) => typeof t !== "string")) throw new Error("tags must be a list of strings");
+
+  const sensitive = raw.sensitive ?? [];
+  if (!Array.isArray(sensitive) || sensitive.some((s) => typeof s !== "string")) {
+    throw new Error("sensitive must be a list of strings");
+  }
+
+  const clip: BackupClip = {
+    id,
+    kind,
+    createdAt,
+    updatedAt,
+    pinned: raw.pinned ? 1 : 0,
+    sortOrder: raw.pinned && Number.isFinite(Number(raw.sortOrder)) ? Math.floor(Number(raw.sortOrder)) : undefined,
+    tags: tags.map((t: string) => t.trim()).filter(Boolean),
+    useCount: Math.max(1, Math.floor(Number(raw.useCount) || 1)),
+    imageName: optString(raw.imageName, "imageName"),
+    borderColor: optString(raw.borderColor, "borderColor"),
+    bgColor: optString(raw.bgColor, "bgColor"),
+    sensitive: sensitive.length ? sensitive : undefined,
+    language: optString(raw.language, "language"),
+  };
+
+  if (kind === "text" || kind === "rich") {
+    const text = optString(raw.text, "text");
+    if (!text) throw new Error(`${kind} clip without text`);
+    clip.text = text;
+  }
+
+  if (kind === "rich") {
+    clip.html = optString(raw.html, "html") || undefined;
+    clip.rtf = optString(raw.rtf, "rtf") || undefined;
+    if (!clip.html && !clip.rtf) throw new Error("rich clip without html or rtf");
+  } else if (kind === "files") {
+    const files = raw.files;
+    if (!Array.isArray(files) || !files.length || files.some((f) => typeof f !== "string" || !f)) {
+      throw new Error("files clip without a list of paths");
+    }
+    clip.files = files;
+    clip.text = files.join("\n");
+  } else if (kind === "image") {
+    const png = optString(raw.imagePng, "imagePng");
+    if (!png || !decodePng(png)) throw new Error("image clip without a valid base64 PNG");
+    clip.imagePng = png;
+  }
+
+  return clip;
+}
+
+function parseCollection(raw: unknown): BackupCollection {
+  if (!isObj(raw)) throw new Error("collection is not an object");
+
+  const id = raw.id;
+  if (typeof id !== "string" || !id.trim()) throw new Error("collection without id");
+
+  const name = optString(raw.name, "collection name")?.trim();
+  if (!name) throw new Error("collection without a name");
+
+  const clipIds = raw.clipIds ?? [];
+  if (!Array.isArray(clipIds) || clipIds.some((c) => typeof c !== "string")) {
+    throw new Error("collection clipIds must be a list of strings");
+  }
+  return { id, name, clipIds };
+}
+
+export function parseBackup(json: string): ParsedBackup {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err: any) {
+    return { ok: false, reason: `Not valid JSON: ${err?.message ?? err}` };
+  }
+
+  if (!isObj(raw) || raw.app !== BACKUP_APP) return { ok: false, reason: "Not a ClipVault backup" };
+
+  const version = Number(raw.schemaVersion);
+  if (!Number.isInteger(version) || version < 1) return { ok: false, reason: "Missing schemaVersion" };
+  if (version > BACKUP_SCHEMA_VERSION) {
+    return { ok: false, reason: `Backup schemaVersion ${version} is newer than this app supports (${BACKUP_SCHEMA_VERSION})` };
+  }
+
+  if (!Array.isArray(raw.clips)) return { ok: false, reason: "Backup has no clips list" };
+
+  const clips: BackupClip[] = [];
+  const errors: RecordError[] = [];
+  const seen = new Set<string>();
+
+  raw.clips.forEach((c: unknown, index: number) => {
+    const id = isObj(c) && typeof c.id === "string" ? c.id : undefined;
+    try {
+      const clip = parseClip(c);
+      if (seen.has(clip.id)) throw new Error("duplicate id within the backup");
+      seen.add(clip.id);
+      clips.push(clip);
+    } catch (err: any) {
+      errors.push({ index, id, reason: err?.message ?? String(err) });
+    }
+  });
+
+  // reported after the clips; index counts within the collections list
+  const collections: BackupCollection[] = [];
+  (Array.isArray(raw.collections) ? raw.collections : []).forEach((c: unknown, index: number) => {
+    try {
+      collections.push(parseCollection(c));
+    } catch (err: any) {
+      errors.push({ index, id: isObj(c) && typeof c.id === "string" ? c.id : undefined, reason: err?.message ?? String(err) });
+    }
+  });
+
+  return { ok: true, clips, collections, settings: isObj(raw.settings) ? raw.settings : {}, errors };
+}
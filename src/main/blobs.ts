@@ -0,0 +1,136 @@
+// ============================
+// FILE: src/main/blobs.ts
+// Content-addressed image storage under userData/blobs
+// ============================
+//
+// Layout: <root>/<first 2 hex>/<sha256>.png        full image
+//         <root>/<first 2 hex>/<sha256>.thumb.png  list thumbnail
+//
+// The same image copied twice is stored once; clips only keep the hash.
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as crypto from "node:crypto";
+import { nativeImage } from "electron";
+
+export type BlobVariant = "image" | "thumb";
+
+// how blobs are named and what goes on disk; the vault swaps in a keyed hash and encryption
+export type BlobCodec = {
+  hash: (png: Buffer) => string;
+  seal: (data: Buffer) => Buffer;
+  // null when the bytes can't be read right now (vault locked)
+  open: (data: Buffer) => Buffer | null;
+};
+
+const THUMB_WIDTH = 360;
+const HASH_RE = /^[0-9a-f]{64}$/;
+
+let root = "";
+let codec: BlobCodec = { hash: sha256, seal: (d) => d, open: (d) => d };
+
+export function initBlobStore(dir: string, c?: BlobCodec) {
+  root = dir;
+  if (c) codec = c;
+  fs.mkdirSync(root, { recursive: true });
+}
+
+export function isBlobHash(s: unknown): s is string {
+  return typeof s === "string" && HASH_RE.test(s);
+}
+
+export function sha256(buf: Buffer) {
+  return crypto.createHash("sha256").update(buf).digest("hex");
+}
+
+export function blobPath(hash: string, variant: BlobVariant) {
+  const file = variant === "thumb" ? `${hash}.thumb.png` : `${hash}.png`;
+  return path.join(root, hash.slice(0, 2), file);
+}
+
+// tmp + rename so a crash never leaves a half-written blob under its final name
+function writeAtomic(file: string, data: Buffer) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, data);
+  fs.renameSync(tmp, file);
+}
+
+function makeThumb(png: Buffer): Buffer {
+  const img = nativeImage.createFromBuffer(png);
+  const { width } = img.getSize();
+  if (img.isEmpty() || width <= THUMB_WIDTH) return png;
+  return img.resize({ width: THUMB_WIDTH, quality: "good" }).toPNG();
+}
+
+// stores a PNG (no-op when already present) and returns its hash.
+// An explicit codec is only passed when re-encoding the store.
+export function putImage(png: Buffer, c = codec): string {
+  const hash = c.hash(png);
+
+  const full = blobPath(hash, "image");
+  if (!fs.existsSync(full)) writeAtomic(full, c.seal(png));
+
+  const thumb = blobPath(hash, "thumb");
+  if (!fs.existsSync(thumb)) writeAtomic(thumb, c.seal(makeThumb(png)));
+
+  return hash;
+}
+
+// bytes on disk for one hash (full image + thumbnail)
+export function blobSize(hash: string): number {
+  if (!isBlobHash(hash)) return 0;
+  let total = 0;
+  for (const variant of ["image", "thumb"] as const) {
+    try {
+      total += fs.statSync(blobPath(hash, variant)).size;
+    } catch {
+      // missing
+    }
+  }
+  return total;
+}
+
+export function readBlob(hash: string, variant: BlobVariant = "image", c = codec): Buffer | null {
+  if (!isBlobHash(hash)) return null;
+  try {
+    return c.open(fs.readFileSync(blobPath(hash, variant)));
+  } catch {
+    return null;
+  }
+}
+
+export function removeBlob(hash: string) {
+  if (!isBlobHash(hash)) return;
+  for (const variant of ["image", "thumb"] as const) {
+    try {
+      fs.unlinkSync(blobPath(hash, variant));
+    } catch {
+      // already gone
+    }
+  }
+}
+
+// deletes every blob (and stray tmp file) whose hash is not in `keep`; returns how many hashes were dropped
+export function sweepBlobs(keep: Set<string>): number {
+  const dropped = new Set<string>();
+
+  for (const dir of fs.readdirSync(root, { withFileTypes: true })) {
+    if (!dir.isDirectory()) continue;
+    const full = path.join(root, dir.name);
+
+    for (const name of fs.readdirSync(full)) {
+      const hash = name.slice(0, 64);
+      if (name.endsWith(".tmp") || !isBlobHash(hash) || !keep.has(hash)) {
+        try {
+          fs.unlinkSync(path.join(full, name));
+          if (isBlobHash(hash)) dropped.add(hash);
+        } catch {
+          // ignore
+        }
+      }
+    }
+  }
+
+  return dropped.size;
+}
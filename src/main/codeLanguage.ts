@@ -0,0 +1,63 @@
+// ============================
+// FILE: src/main/codeLanguage.ts
+// Best-guess language of a code clip (highlight.js auto-detection)
+// ============================
+//
+// Only the languages below are considered, both for speed and because auto-detection over all
+// of highlight.js guesses wildly on short text. The renderer registers the same list to highlight.
+// Shell commands and SQL statements are spotted before highlight.js gets a say: they are short
+// and score poorly (a one-line SELECT reads as bash to it).
+
+import type { HLJSApi, LanguageFn } from "highlight.js";
+import { looksLikeShell } from "./contentType";
+
+const hljs = require("highlight.js/lib/core") as HLJSApi;
+
+// must match CODE_LANGUAGES in renderer/ui/highlight.ts
+export const CODE_LANGUAGES = [
+  "bash",
+  "c",
+  "cpp",
+  "csharp",
+  "css",
+  "diff",
+  "dockerfile",
+  "go",
+  "ini",
+  "java",
+  "javascript",
+  "json",
+  "kotlin",
+  "markdown",
+  "php",
+  "powershell",
+  "python",
+  "ruby",
+  "rust",
+  "sql",
+  "swift",
+  "typescript",
+  "xml",
+  "yaml",
+];
+
+for (const name of CODE_LANGUAGES) {
+  hljs.registerLanguage(name, require(`highlight.js/lib/languages/${name}`) as LanguageFn);
+}
+
+// below this highlight.js is mostly guessing
+const MIN_RELEVANCE = 3;
+
+const SQL_RE = /^\s*(?:SELECT|INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM|CREATE\s+(?:TABLE|INDEX|VIEW)|ALTER\s+TABLE|WITH\s+\w+\s+AS)\b/i;
+
+// auto-detection cost grows with the text and the language count
+const MAX_DETECT = 20_000;
+
+export function detectLanguage(text: string): string | null {
+  if (looksLikeShell(text)) return "bash";
+  if (SQL_RE.test(text)) return "sql";
+
+  const sample = text.length > MAX_DETECT ? text.slice(0, MAX_DETECT) : text;
+  const res = hljs.highlightAuto(sample, CODE_LANGUAGES);
+  return res.language && res.relevance >= MIN_RELEVANCE ? res.language : null;
+}
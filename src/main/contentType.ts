@@ -0,0 +1,119 @@
+// ============================
+// FILE: src/main/contentType.ts
+// What a text clip holds, for tailored previews and type: search terms
+// ============================
+//
+//   url        one http(s) or ftp URL
+//   email      one email address
+//   color      #rgb, #rrggbb (+ alpha), rgb() / rgba()
+//   json       an object or array that parses
+//   path       one absolute or home-relative file path (Unix, Windows drive or UNC)
+//   phone      a phone number written with + or separators (a bare digit run is not one)
+//   timestamp  Unix time in seconds (10 digits) or milliseconds (13 digits), 2001–2100
+//   code       source code, by how many lines look like it, or a shell command
+//
+// The first match in that order wins; anything else is plain text (null).
+
+export type ContentType = "url" | "email" | "color" | "json" | "path" | "phone" | "timestamp" | "code";
+
+export const CONTENT_TYPES: ContentType[] = ["url", "email", "color", "json", "path", "phone", "timestamp", "code"];
+
+// longer clips are not looked at (they are prose or code dumps, and JSON.parse would cost)
+const MAX_DETECT = 200_000;
+
+// 2001-09-09 .. 2100-01-01, in seconds
+const EPOCH_MIN = 1_000_000_000;
+const EPOCH_MAX = 4_102_444_800;
+
+const HEX_COLOR_RE = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const RGB_COLOR_RE = /^rgba?\(\s*\d{1,3}%?\s*,\s*\d{1,3}%?\s*,\s*\d{1,3}%?\s*(?:,\s*(?:\d*\.?\d+%?)\s*)?\)$/i;
+const EMAIL_RE = /^[^\s@<>()[\],;:"]+@[^\s@<>()[\],;:"]+\.[a-z]{2,}$/i;
+const PHONE_RE = /^\+?[\d\s().-]+$/;
+const UNIX_PATH_RE = /^~?\/(?:[^/\0\n]+\/?)+$/;
+const WINDOWS_PATH_RE = /^(?:[a-z]:\\|\\\\[^\\\s]+\\)[^<>:"|?*\n]*$/i;
+
+// a line that reads like code rather than prose
+const CODE_LINE_RES = [
+  /[;{}]\s*$/,
+  /^\s*(?:import|export|from|const|let|var|function|def|class|return|if|elif|else|for|while|switch|case|try|catch|public|private|protected|static|async|await|fn|func|package|using|namespace|struct|enum|interface|type)\b/,
+  /^\s*(?:#include|#define|#!\/)/,
+  /=>|::|->|\)\s*\{|===|!==|&&|\|\|/,
+  /^\s*(?:\/\/|\/\*|\*|#\s)/,
+  /^\s*<\/?[a-z][\w-]*(?:\s[^>]*)?>/i,
+  /^\s*(?:SELECT|INSERT|UPDATE|DELETE|CREATE|ALTER|DROP)\s/i,
+];
+
+// a command line: a "$ " prompt, a well-known tool with arguments, a file command with a flag or
+// path (so "cat food" stays prose), or an environment export
+const SHELL_RE =
+  /^\s*(?:\$\s+[a-z]|(?:sudo|git|npm|npx|yarn|pnpm|docker|kubectl|brew|apt|apt-get|pip|pip3|cargo|curl|wget|ssh|scp)\s+\S|(?:ls|cd|cat|rm|mv|cp|mkdir|chmod|chown|grep|tar|node|go)\s+[-~./]|export\s+[A-Z_][A-Z0-9_]*=)/;
+
+// every line is a command (or a comment / continuation of one)
+export function looksLikeShell(text: string) {
+  const lines = text.trim().split(/\r?\n/).filter((l) => l.trim());
+  if (!lines.length || lines.length > 50) return false;
+  let commands = 0;
+  for (let i = 0; i < lines.length; i++) {
+    if (/^\s*#/.test(lines[i]) || (i > 0 && /\\\s*$/.test(lines[i - 1]))) continue;
+    if (!SHELL_RE.test(lines[i])) return false;
+    commands++;
+  }
+  return commands > 0;
+}
+
+function isUrl(s: string) {
+  if (/\s/.test(s) || !/^(?:https?|ftp):\/\//i.test(s)) return false;
+  try {
+    return !!new URL(s).hostname;
+  } catch {
+    return false;
+  }
+}
+
+function isJson(s: string) {
+  if (!/^[[{]/.test(s) || !/[\]}]$/.test(s)) return false;
+  try {
+    const v = JSON.parse(s);
+    return !!v && typeof v === "object";
+  } catch {
+    return false;
+  }
+}
+
+function isTimestamp(s: string) {
+  if (!/^\d{10}(?:\d{3})?$/.test(s)) return false;
+  const sec = s.length === 13 ? Number(s) / 1000 : Number(s);
+  return sec >= EPOCH_MIN && sec < EPOCH_MAX;
+}
+
+function isPhone(s: string) {
+  if (!PHONE_RE.test(s)) return false;
+  const digits = s.replace(/\D/g, "").length;
+  return digits >= 7 && digits <= 15 && (s.startsWith("+") || /[\s().-]/.test(s));
+}
+
+function isCode(s: string) {
+  const lines = s.split(/\r?\n/).filter((l) => l.trim());
+  const hits = lines.filter((l) => CODE_LINE_RES.some((re) => re.test(l))).length;
+  // one line needs two signs of code; a block needs most of its lines to look like code
+  if (lines.length === 1) return CODE_LINE_RES.filter((re) => re.test(lines[0])).length >= 2;
+  return hits >= 2 && hits / lines.length >= 0.5;
+}
+
+export function detectContentType(text: string): ContentType | null {
+  const s = text.trim();
+  if (!s || s.length > MAX_DETECT) return null;
+
+  const oneLine = !/\n/.test(s);
+  if (oneLine) {
+    if (HEX_COLOR_RE.test(s) || RGB_COLOR_RE.test(s)) return "color";
+    if (isUrl(s)) return "url";
+    if (EMAIL_RE.test(s)) return "email";
+    if (isTimestamp(s)) return "timestamp";
+    if (isPhone(s)) return "phone";
+    if (!s.includes("://") && (UNIX_PATH_RE.test(s) || WINDOWS_PATH_RE.test(s))) return "path";
+  }
+  if (isJson(s)) return "json";
+  if (isCode(s) || looksLikeShell(s)) return "code";
+  return null;
+}
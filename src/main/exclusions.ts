@@ -0,0 +1,125 @@
+// ============================
+// FILE: src/main/exclusions.ts
+// User rules for text that is never recorded
+// ============================
+//
+// Checked by the clipboard poller before a text clip is stored; the first enabled rule
+// that matches wins. Stored as a JSON list in the "exclusions" setting.
+//
+//   regex       pattern matches anywhere in the text
+//   minLength   text shorter than `length` characters
+//   maxLength   text longer than `length` characters
+//   whitespace  nothing but whitespace
+//   number      a plain number, e.g. 42, -3.5, 1,234.00
+
+import { randomUUID } from "node:crypto";
+
+export type ExclusionKind = "regex" | "minLength" | "maxLength" | "whitespace" | "number";
+
+export type ExclusionRule = {
+  id: string;
+  kind: ExclusionKind;
+  enabled: boolean;
+  // regex only
+  pattern?: string;
+  ignoreCase?: boolean;
+  // minLength / maxLength only
+  length?: number;
+};
+
+const KINDS: ExclusionKind[] = ["regex", "minLength", "maxLength", "whitespace", "number"];
+
+const NUMBER_RE = /^[+-]?\d+(?:[.,\s]\d+)*$/;
+
+export function normalizeExclusions(raw: unknown): ExclusionRule[] {
+  if (!Array.isArray(raw)) return [];
+
+  const out: ExclusionRule[] = [];
+  for (const r of raw) {
+    if (!r || typeof r !== "object" || !KINDS.includes(r.kind)) continue;
+
+    const rule: ExclusionRule = {
+      id: typeof r.id === "string" && r.id ? r.id : randomUUID(),
+      kind: r.kind,
+      enabled: r.enabled !== false,
+    };
+    if (rule.kind === "regex") {
+      rule.pattern = String(r.pattern ?? "");
+      rule.ignoreCase = !!r.ignoreCase;
+    }
+    if (rule.kind === "minLength" || rule.kind === "maxLength") {
+      rule.length = Math.max(0, Math.floor(Number(r.length) || 0));
+    }
+    out.push(rule);
+  }
+  return out;
+}
+
+const compiled = new Map<string, RegExp | null>();
+
+function ruleRegex(rule: ExclusionRule): RegExp | null {
+  const key = `${rule.ignoreCase ? "i" : ""}/${rule.pattern ?? ""}`;
+  if (!compiled.has(key)) {
+    let re: RegExp | null = null;
+    try {
+      re = rule.pattern ? new RegExp(rule.pattern, rule.ignoreCase ? "i" : "") : null;
+    } catch {
+      // reported by ruleError
+    }
+    if (compiled.size > 100) compiled.clear();
+    compiled.set(key, re);
+  }
+  return compiled.get(key)!;
+}
+
+// why a rule can never match, or "" when it is usable
+export function ruleError(rule: ExclusionRule): string {
+  if (rule.kind === "regex") {
+    if (!rule.pattern) return "Empty pattern";
+    try {
+      new RegExp(rule.pattern, rule.ignoreCase ? "i" : "");
+    } catch (err: any) {
+      return err?.message ?? String(err);
+    }
+  }
+  if ((rule.kind === "minLength" || rule.kind === "maxLength") && !rule.length) return "Length must be above 0";
+  return "";
+}
+
+export function matchesRule(rule: ExclusionRule, text: string): boolean {
+  switch (rule.kind) {
+    case "regex":
+      return !!ruleRegex(rule)?.test(text);
+    case "minLength":
+      return !!rule.length && text.length < rule.length;
+    case "maxLength":
+      return !!rule.length && text.length > rule.length;
+    case "whitespace":
+      return !text.trim();
+    case "number":
+      return NUMBER_RE.test(text.trim());
+  }
+}
+
+export function findExclusion(text: string, rules: ExclusionRule[]): ExclusionRule | undefined {
+  return rules.find((r) => r.enabled && matchesRule(r, text));
+}
+
+function escapeRegex(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "Don't record things like this": the whole text, with every run of digits and
+// whitespace allowed to vary, so "Order #1042" also covers "Order #977".
+// Rules see the clipboard text before it is trimmed, hence the \s* at both ends.
+export function ruleFromText(text: string): ExclusionRule {
+  const t = text.trim();
+  if (!t) return { id: randomUUID(), kind: "whitespace", enabled: true };
+  if (NUMBER_RE.test(t)) return { id: randomUUID(), kind: "number", enabled: true };
+
+  const body = t
+    .split(/(\d+|\s+)/)
+    .map((part) => (/^\d+$/.test(part) ? "\\d+" : /^\s+$/.test(part) ? "\\s+" : escapeRegex(part)))
+    .join("");
+  return { id: randomUUID(), kind: "regex", enabled: true, pattern: `^\\s*${body}\\s*$`, ignoreCase: false };
+}
@@ -0,0 +1,101 @@
+// ============================
+// FILE: src/main/fileList.ts
+// File lists on the system clipboard, per platform
+// ============================
+//
+// Electron has no file-list API, so the native formats are read and written raw:
+//
+//   darwin  NSFilenamesPboardType   plist <array> of paths (public.file-url for a single file)
+//   linux   text/uri-list           file:// URLs, one per line (KDE, Thunar, GTK 4)
+//           x-special/gnome-copied-files   "copy" or "cut", then the URLs (Nautilus, Nemo)
+//   win32   FileNameW               one UTF-16 path; Electron can't reach CF_HDROP, so
+//                                   only the first file of a selection comes through
+
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+type Clipboard = Pick<Electron.Clipboard, "has" | "read" | "readBuffer" | "writeBuffer">;
+
+const MAC_FILES = "NSFilenamesPboardType";
+const MAC_FILE_URL = "public.file-url";
+const URI_LIST = "text/uri-list";
+const GNOME_FILES = "x-special/gnome-copied-files";
+const WIN_FILE = "FileNameW";
+
+function fileUrlToPath(url: string): string | null {
+  if (!url.startsWith("file://")) return null;
+  try {
+    return fileURLToPath(url);
+  } catch {
+    return null;
+  }
+}
+
+export function parseUriList(s: string): string[] {
+  return s
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l && !l.startsWith("#"))
+    .map(fileUrlToPath)
+    .filter((p): p is string => !!p);
+}
+
+export function parseGnomeCopiedFiles(s: string): string[] {
+  const [op, ...rest] = s.split(/\r?\n/);
+  return op === "copy" || op === "cut" ? parseUriList(rest.join("\n")) : [];
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+export function parseNsFilenames(plist: string): string[] {
+  return [...plist.matchAll(/<string>([\s\S]*?)<\/string>/g)].map((m) =>
+    m[1].replace(/&(amp|lt|gt|quot|apos);/g, (_, e) => XML_ENTITIES[e])
+  );
+}
+
+export function buildNsFilenames(paths: string[]) {
+  const esc = (p: string) => p.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+    "<array>",
+    ...paths.map((p) => `  <string>${esc(p)}</string>`),
+    "</array>",
+    "</plist>",
+  ].join("\n");
+}
+
+export function parseFileNameW(buf: Buffer): string[] {
+  const s = buf.toString("utf16le");
+  const end = s.indexOf("\0");
+  const p = (end >= 0 ? s.slice(0, end) : s).trim();
+  return p ? [p] : [];
+}
+
+// absolute paths of the copied files, or [] when the clipboard holds none
+export function readFileList(cb: Clipboard, platform: NodeJS.Platform = process.platform): string[] {
+  if (platform === "darwin") {
+    if (cb.has(MAC_FILES)) return parseNsFilenames(cb.read(MAC_FILES));
+    if (cb.has(MAC_FILE_URL)) return parseUriList(cb.read(MAC_FILE_URL));
+    return [];
+  }
+  if (platform === "win32") {
+    return cb.has(WIN_FILE) ? parseFileNameW(cb.readBuffer(WIN_FILE)) : [];
+  }
+  if (cb.has(GNOME_FILES)) {
+    const files = parseGnomeCopiedFiles(cb.read(GNOME_FILES));
+    if (files.length) return files;
+  }
+  return cb.has(URI_LIST) ? parseUriList(cb.read(URI_LIST)) : [];
+}
+
+// each raw write replaces the whole clipboard, so only the most widely read format is written
+export function writeFileList(cb: Clipboard, paths: string[], platform: NodeJS.Platform = process.platform) {
+  if (platform === "darwin") {
+    cb.writeBuffer(MAC_FILES, Buffer.from(buildNsFilenames(paths), "utf8"));
+  } else if (platform === "win32") {
+    cb.writeBuffer(WIN_FILE, Buffer.from(`${paths[0] ?? ""}\0`, "utf16le"));
+  } else {
+    cb.writeBuffer(URI_LIST, Buffer.from(paths.map((p) => pathToFileURL(p).href).join("\r\n") + "\r\n", "utf8"));
+  }
+}
@@ -13,27 +13,107 @@ import {
   Tray,
   Menu,
   dialog,
+  protocol,
+  powerMonitor,
+  shell,
 } from "electron";
 import * as path from "node:path";
 import * as fs from "node:fs";
+import { parseSearchQuery, queryToSql } from "./query";
+import {
+  BlobCodec,
+  blobSize,
+  initBlobStore,
+  isBlobHash,
+  putImage,
+  readBlob,
+  removeBlob,
+  sha256,
+  sweepBlobs,
+} from "./blobs";
+import {
+  BACKUP_APP,
+  BACKUP_SCHEMA_VERSION,
+  BackupClip,
+  BackupCollection,
+  BackupFile,
+  decodePng,
+  parseBackup,
+  RecordError,
+} from "./backup";
+import { DEFAULT_RETENTION, normalizePolicy, planPrune, RetentionPolicy, RetentionRow, trashCutoff } from "./retention";
+import { MigrationError, runMigrations } from "./migrations";
+import {
+  CONCEALED_FORMATS,
+  DEFAULT_SENSITIVE,
+  detectSensitive,
+  normalizeSensitive,
+  redact,
+  redactedPreview,
+  SensitivePolicy,
+} from "./sensitive";
+import { readFileList, writeFileList } from "./fileList";
+import { createPasteInjector, PasteInjector } from "./paste";
+import { expandSnippet, snippetInputs } from "./snippets";
+import { ExclusionRule, findExclusion, normalizeExclusions, ruleFromText } from "./exclusions";
+import { ColorLabel, DEFAULT_LABELS, normalizeHex, normalizeLabels } from "./labels";
+import { ContentType, detectContentType } from "./contentType";
+import { CODE_LANGUAGES, detectLanguage } from "./codeLanguage";
+import { createSearchIndex, dropSearchIndex, rebuildSearchIndex } from "./searchIndex";
+import {
+  createVault,
+  deriveVaultKey,
+  keyedHash,
+  MIN_PASSPHRASE,
+  openBuffer,
+  openText,
+  parseVaultHeader,
+  sealBuffer,
+  sealText,
+  VaultHeader,
+} from "./vault";
 
 const BetterSqlite3 = require("better-sqlite3") as typeof import("better-sqlite3");
 
-type ClipKind = "text" | "image";
+// rich: plain text plus the HTML and/or RTF it was copied with; files: a list of paths, one per line in `text`
+type ClipKind = "text" | "image" | "rich" | "files";
 type Lang = "en" | "km";
+// what counts as a repeat when the same text is copied again
+type DedupeMode = "off" | "consecutive" | "history";
 
 type ClipItem = {
   id: string;
   kind: ClipKind;
   text?: string;
-  imageDataUrl?: string;
+  imageHash?: string;
+  // cvblob:// URLs served by the blob protocol handler
+  imageUrl?: string;
+  thumbUrl?: string;
   imageName?: string;
+  // rich clips: which formats are stored besides the plain text (the markup stays in main)
+  richFormats?: ("html" | "rtf")[];
+  files?: string[];
   createdAt: number;
   updatedAt?: number;
   pinned: 0 | 1;
   tags: string[];
+  // times captured or copied from the app
+  useCount: number;
   borderColor?: string;
   bgColor?: string;
+  // text and rich clips: what the text holds (see contentType.ts); unset for plain text
+  contentType?: ContentType;
+  // highlight.js language name: the best guess for code clips, or the user's pick (languageManual)
+  language?: string;
+  languageManual?: boolean;
+  // detector ids for a clip that holds a detected secret; the list shows `preview` until revealed
+  sensitive?: string[];
+  preview?: string;
+  expiresAt?: number;
+  // in the trash since
+  deletedAt?: number;
+  // search-only: fragment of text (or imageName) with hits wrapped in SNIPPET_OPEN / SNIPPET_CLOSE
+  snippet?: string;
 };
 
 type Theme = Record<string, any>;
@@ -43,7 +123,18 @@ type AppSettings = {
   closeOnCopy: boolean;
   closeOnCopyDelayMs: number;
   closeOnBlur: boolean;
+  // Enter in the popup pastes into the app that had focus before it (see paste.ts)
+  enterPastes: boolean;
   startAtLogin: boolean;
+  dedupeMode: DedupeMode;
+  retention: RetentionPolicy;
+  sensitive: SensitivePolicy;
+  // text matching one of these is never recorded
+  exclusions: ExclusionRule[];
+  // vault: lock after this many minutes of system idle time (0 = never)
+  vaultAutoLockMinutes: number;
+  // named colors offered when labelling a clip (see labels.ts)
+  colorLabels: ColorLabel[];
   lang: Lang;
   theme: Partial<Theme>;
 };
@@ -68,6 +159,16 @@ const DEFAULT_THEME: Theme = {
   controlText: "#EBF2FB",
 };
 
+const PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+// control chars that don't occur in copied text, so they are safe hit markers
+const SNIPPET_OPEN = "\u0002";
+const SNIPPET_CLOSE = "\u0003";
+
+// images are served to the renderer as cvblob://<image|thumb>/<sha256>
+const BLOB_SCHEME = "cvblob";
+
 let win: BrowserWindow | null = null;
 let tray: Tray | null = null;
 let db!: import("better-sqlite3").Database;
@@ -82,6 +183,11 @@ if (!gotLock) {
   });
 }
 
+// must happen before "ready"
+protocol.registerSchemesAsPrivileged([
+  { scheme: BLOB_SCHEME, privileges: { standard: true, secure: true, supportFetchAPI: true } },
+]);
+
 // -------------------- helpers --------------------
 function userDataPath(...p: string[]) {
   return path.join(app.getPath("userData"), ...p);
@@ -107,139 +213,1589 @@ function getSetting(key: string): string | undefined {
   return r?.value;
 }
 
-function ensureColumn(table: string, column: string, ddl: string) {
-  const cols = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
-  if (!cols.some((c) => c.name === column)) db.exec(ddl);
-}
-
 function randId() {
   return `${Date.now()}_${Math.random().toString(16).slice(2)}`;
 }
 
 function notifyHistoryUpdated() {
   win?.webContents.send("historyUpdated");
+  refreshTrayMenu();
 }
 
 function notifySettingsUpdated() {
   win?.webContents.send("settingsUpdated", getAppSettings());
+  refreshTrayMenu();
 }
 
 // -------------------- DB --------------------
-function dbInit() {
+function dbInit(): boolean {
   const dbFile = userDataPath("clipvault.sqlite");
   db = new BetterSqlite3(dbFile);
 
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS clips (
-      id TEXT PRIMARY KEY,
-      kind TEXT NOT NULL,
-      text TEXT,
-      imageDataUrl TEXT,
-      imageName TEXT,
-      createdAt INTEGER NOT NULL,
-      updatedAt INTEGER,
-      pinned INTEGER NOT NULL DEFAULT 0,
-      tagsJson TEXT NOT NULL DEFAULT '[]',
-      borderColor TEXT,
-      bgColor TEXT
-    );
+  // keeps the unlocked vault's search index (see searchIndex.ts) off the disk
+  db.pragma("temp_store = MEMORY");
+
+  // blobs first: the image migration writes into the store
+  initBlobStore(userDataPath("blobs"), blobCodec);
+
+  try {
+    runMigrations(db, { dbFile, backupDir: userDataPath("backups") });
+  } catch (err: any) {
+    db.close();
+    const backup =
+      err instanceof MigrationError && err.backupPath
+        ? `\n\nA copy of the database from before the upgrade is at:\n${err.backupPath}`
+        : "";
+    dialog.showErrorBox(
+      "ClipVault could not upgrade its database",
+      `${err?.message ?? err}\n\nNo changes were made to your history.${backup}`
+    );
+    return false;
+  }
+
+  vault = parseVaultHeader(getSetting("vault"));
+  registerSqlFunctions();
+  sweepBlobs(referencedBlobs());
+  if (!isLocked()) classifyPending();
+
+  if (!getSetting("popupShortcut")) setSetting("popupShortcut", "CommandOrControl+Shift+V");
+  if (!getSetting("lang")) setSetting("lang", "en");
+  if (!getSetting("theme")) setSetting("theme", JSON.stringify(DEFAULT_THEME));
+
+  if (!getSetting("closeOnCopy")) setSetting("closeOnCopy", "true");
+  if (!getSetting("closeOnCopyDelayMs")) setSetting("closeOnCopyDelayMs", "0");
+  if (!getSetting("closeOnBlur")) setSetting("closeOnBlur", "false");
+  if (!getSetting("startAtLogin")) setSetting("startAtLogin", "false");
+  if (!getSetting("dedupeMode")) setSetting("dedupeMode", "history");
+  if (!getSetting("retention")) setSetting("retention", JSON.stringify(DEFAULT_RETENTION));
+  if (!getSetting("sensitive")) setSetting("sensitive", JSON.stringify(DEFAULT_SENSITIVE));
+  if (!getSetting("vaultAutoLockMinutes")) setSetting("vaultAutoLockMinutes", "5");
+  return true;
+}
+
+function textBytes(text: string) {
+  return Buffer.byteLength(text, "utf8");
+}
+
+function textHash(text: string) {
+  return contentHash(Buffer.from(text, "utf8"));
+}
+
+// what dedupe compares: the plain text for text clips, everything restorable for the other kinds
+function dedupeKey(kind: ClipKind, text: string, html?: string | null, rtf?: string | null) {
+  return kind === "text" ? text : [kind, text, html ?? "", rtf ?? ""].join("\0");
+}
+
+// -------------------- search index --------------------
+const regexCache = new Map<string, RegExp>();
+
+// backs /regex/ search terms (see query.ts)
+function registerSqlFunctions() {
+  db.function("cv_regexp", { deterministic: true }, (source: unknown, flags: unknown, value: unknown) => {
+    const key = `${flags}/${source}`;
+    let re = regexCache.get(key);
+    if (!re) {
+      re = new RegExp(String(source), String(flags ?? ""));
+      if (regexCache.size > 50) regexCache.clear();
+      regexCache.set(key, re);
+    }
+    return re.test(String(value ?? "")) ? 1 : 0;
+  });
+
+  // plaintext view of a column the vault may have sealed; NULL while locked
+  db.function("cv_open", (value: unknown) => (typeof value === "string" ? openValue(value) : value ?? null));
+}
+
+// -------------------- content types --------------------
+// Both stored sealed; contentType "" marks text that was looked at and is plain. Code gets a
+// best-guess language (see codeLanguage.ts) and JSON is "json"; anything else has none.
+function classifyText(text: string) {
+  const type = detectContentType(text);
+  const language = type === "json" ? "json" : type === "code" ? detectLanguage(text) : null;
+  return { contentType: sealValue(type ?? ""), language: language != null ? sealValue(language) : null };
+}
+
+// a language the user picked stays when the text is classified again
+const KEEP_MANUAL_LANGUAGE = "language = CASE WHEN languageManual = 1 THEN language ELSE ? END";
+
+// clips from before migrations 13/14, or imported/captured while the type could not be stored
+function classifyPending() {
+  const rows = db.prepare("SELECT id, text FROM clips WHERE contentType IS NULL AND kind IN ('text', 'rich')").all() as {
+    id: string;
+    text: string | null;
+  }[];
+  if (!rows.length) return;
+
+  const update = db.prepare(`UPDATE clips SET contentType=?, ${KEEP_MANUAL_LANGUAGE} WHERE id=?`);
+  db.transaction(() => {
+    for (const r of rows) {
+      const c = classifyText(openValue(r.text) ?? "");
+      update.run(c.contentType, c.language, r.id);
+    }
+  })();
+}
+
+// -------------------- vault --------------------
+// Encryption at rest (see vault.ts). `vault` is the stored header (null = off);
+// the data key only exists in memory while unlocked.
+let vault: VaultHeader | null = null;
+let vaultKey: Buffer | null = null;
+
+const VAULT_IDLE_CHECK_MS = 30 * 1000;
+
+type VaultStatus = { enabled: boolean; locked: boolean };
+
+function isLocked() {
+  return !!vault && !vaultKey;
+}
+
+function vaultStatus(): VaultStatus {
+  return { enabled: !!vault, locked: isLocked() };
+}
+
+function notifyVaultUpdated() {
+  win?.webContents.send("vaultUpdated", vaultStatus());
+  refreshTrayMenu();
+}
+
+// with the vault on, writes must never fall back to plaintext
+function requireKey(): Buffer | null {
+  if (!vault) return null;
+  if (!vaultKey) throw new Error("Vault is locked");
+  return vaultKey;
+}
+
+function sealValue(value: string) {
+  const key = requireKey();
+  return key ? sealText(key, value) : value;
+}
+
+function openValue(value: string | null | undefined): string | null {
+  if (value == null) return null;
+  return vault ? openText(vaultKey, value) : value;
+}
+
+// clip and blob hashes are keyed while the vault is on, so they can't be matched against guesses
+function contentHash(data: Buffer) {
+  const key = requireKey();
+  return key ? keyedHash(key, data) : sha256(data);
+}
+
+const blobCodec: BlobCodec = {
+  hash: contentHash,
+  seal: (data) => {
+    const key = requireKey();
+    return key ? sealBuffer(key, data) : data;
+  },
+  open: (data) => openBuffer(vaultKey, data),
+};
+
+// fixed-key codec for re-encoding (null = plaintext)
+function blobCodecFor(key: Buffer | null): BlobCodec {
+  if (!key) return { hash: sha256, seal: (d) => d, open: (d) => openBuffer(null, d) };
+  return { hash: (d) => keyedHash(key, d), seal: (d) => sealBuffer(key, d), open: (d) => openBuffer(key, d) };
+}
+
+async function unlockVault(passphrase: string) {
+  if (!vault) return { ok: false as const, reason: "Encryption is off" };
+  if (vaultKey) return { ok: true as const };
+
+  const key = await deriveVaultKey(vault, String(passphrase ?? ""));
+  if (!key) return { ok: false as const, reason: "Wrong passphrase" };
+
+  vaultKey = key;
+  createSearchIndex(db, "temp");
+  classifyPending();
+  notifyVaultUpdated();
+  notifyHistoryUpdated();
+  return { ok: true as const };
+}
+
+function lockVault() {
+  if (!vault || !vaultKey) return;
+  vaultKey.fill(0);
+  vaultKey = null;
+  dropSearchIndex(db, "temp");
+  notifyVaultUpdated();
+}
+
+// Rewrites every clip and image blob from one key to the other (null = plaintext) in one
+// transaction, together with the vault header and the matching search index.
+function reencodeStore(fromKey: Buffer | null, toKey: Buffer | null, header: VaultHeader | null) {
+  const rows = db
+    .prepare("SELECT id, kind, text, html, rtf, filesJson, imageName, tagsJson, contentType, language, imageHash FROM clips")
+    .all() as {
+    id: string;
+    kind: ClipKind;
+    text: string | null;
+    html: string | null;
+    rtf: string | null;
+    filesJson: string | null;
+    imageName: string | null;
+    tagsJson: string;
+    contentType: string | null;
+    language: string | null;
+    imageHash: string | null;
+  }[];
+
+  const from = blobCodecFor(fromKey);
+  const to = blobCodecFor(toKey);
+
+  const open = (v: string | null) => {
+    if (v == null || !fromKey) return v;
+    const plain = openText(fromKey, v);
+    if (plain === null) throw new Error("A clip could not be decrypted; nothing was changed");
+    return plain;
+  };
+  const seal = (v: string | null) => (v == null || !toKey ? v : sealText(toKey, v));
+
+  const update = db.prepare(`
+    UPDATE clips SET text=?, textHash=?, html=?, rtf=?, filesJson=?, imageName=?, tagsJson=?, contentType=?, language=?,
+                     imageHash=?, sizeBytes=COALESCE(?, sizeBytes)
+    WHERE id=?
+  `);
+  // old blob hash -> new one; the same image may back several clips
+  const moved = new Map<string, string>();
+
+  const snippets = db.prepare("SELECT id, name, body FROM snippets").all() as { id: string; name: string; body: string }[];
+  const updateSnippet = db.prepare("UPDATE snippets SET name=?, body=? WHERE id=?");
+  const collections = db.prepare("SELECT id, name FROM collections").all() as { id: string; name: string }[];
+  const updateCollection = db.prepare("UPDATE collections SET name=? WHERE id=?");
+
+  db.transaction(() => {
+    // the index for the old mode goes first; its triggers can't read the new values
+    dropSearchIndex(db, fromKey ? "temp" : "main");
+
+    for (const r of rows) {
+      const text = open(r.text);
+      const html = open(r.html);
+      const rtf = open(r.rtf);
+
+      let imageHash = r.imageHash;
+      let size: number | null = null;
+      if (r.imageHash) {
+        let next = moved.get(r.imageHash);
+        if (!next) {
+          const png = readBlob(r.imageHash, "image", from);
+          next = png ? putImage(png, to) : r.imageHash; // a lost blob keeps its dangling hash
+          moved.set(r.imageHash, next);
+        }
+        imageHash = next;
+        size = blobSize(next);
+      }
+
+      update.run(
+        seal(text),
+        r.kind === "image" ? null : to.hash(Buffer.from(dedupeKey(r.kind, text ?? "", html, rtf), "utf8")),
+        seal(html),
+        seal(rtf),
+        seal(open(r.filesJson)),
+        seal(open(r.imageName)),
+        seal(open(r.tagsJson)) ?? "[]",
+        seal(open(r.contentType)),
+        seal(open(r.language)),
+        imageHash,
+        size,
+        r.id
+      );
+    }
+
+    for (const sn of snippets) updateSnippet.run(seal(open(sn.name)), seal(open(sn.body)), sn.id);
+    for (const k of collections) updateCollection.run(seal(open(k.name)), k.id);
+
+    const exclusions = getSetting("exclusions");
+    if (exclusions) setSetting("exclusions", seal(open(exclusions))!);
+
+    if (header) setSetting("vault", JSON.stringify(header));
+    else db.prepare("DELETE FROM settings WHERE key='vault'").run();
+
+    if (!toKey) createSearchIndex(db, "main");
+  })();
+
+  vault = header;
+  vaultKey = toKey;
+  sweepBlobs(referencedBlobs());
+
+  // scrub the pages that held the old values; VACUUM may renumber rowids
+  try {
+    db.exec("VACUUM");
+  } catch (err) {
+    console.error("VACUUM after re-encoding failed", err);
+  }
+  if (toKey) createSearchIndex(db, "temp");
+  else rebuildSearchIndex(db);
+}
+
+async function enableVault(passphrase: string) {
+  if (vault) return { ok: false as const, reason: "Encryption is already on" };
+  const pass = String(passphrase ?? "");
+  if (pass.length < MIN_PASSPHRASE) {
+    return { ok: false as const, reason: `Use a passphrase of at least ${MIN_PASSPHRASE} characters` };
+  }
+
+  const { header, key } = await createVault(pass);
+  try {
+    reencodeStore(null, key, header);
+  } catch (err: any) {
+    sweepBlobs(referencedBlobs());
+    return { ok: false as const, reason: err?.message ?? String(err) };
+  }
+
+  // schema-upgrade copies taken before this point hold plaintext
+  fs.rmSync(userDataPath("backups"), { recursive: true, force: true });
+
+  notifyVaultUpdated();
+  notifyHistoryUpdated();
+  return { ok: true as const };
+}
+
+async function disableVault(passphrase: string) {
+  if (!vault) return { ok: false as const, reason: "Encryption is off" };
+
+  const key = await deriveVaultKey(vault, String(passphrase ?? ""));
+  if (!key) return { ok: false as const, reason: "Wrong passphrase" };
+
+  try {
+    reencodeStore(key, null, null);
+  } catch (err: any) {
+    sweepBlobs(referencedBlobs());
+    return { ok: false as const, reason: err?.message ?? String(err) };
+  }
+
+  notifyVaultUpdated();
+  notifyHistoryUpdated();
+  return { ok: true as const };
+}
+
+function startVaultAutoLock() {
+  powerMonitor.on("lock-screen", lockVault);
+  powerMonitor.on("suspend", lockVault);
+
+  setInterval(() => {
+    const minutes = getAppSettings().vaultAutoLockMinutes;
+    if (vaultKey && minutes > 0 && powerMonitor.getSystemIdleTime() >= minutes * 60) lockVault();
+  }, VAULT_IDLE_CHECK_MS);
+}
+
+// -------------------- image blobs --------------------
+function blobUrl(hash: string, variant: "image" | "thumb") {
+  return `${BLOB_SCHEME}://${variant}/${hash}`;
+}
+
+function referencedBlobs() {
+  const rows = db.prepare("SELECT DISTINCT imageHash FROM clips WHERE imageHash IS NOT NULL").all() as {
+    imageHash: string;
+  }[];
+  return new Set(rows.map((r) => r.imageHash));
+}
+
+// drops the files once no clip points at them any more
+function releaseBlob(hash: string | null | undefined) {
+  if (!hash) return;
+  const still = db.prepare("SELECT 1 FROM clips WHERE imageHash=? LIMIT 1").get(hash);
+  if (!still) removeBlob(hash);
+}
+
+function registerBlobProtocol() {
+  protocol.handle(BLOB_SCHEME, (req) => {
+    const url = new URL(req.url);
+    const variant = url.hostname === "thumb" ? "thumb" : "image";
+    const hash = url.pathname.replace(/^\//, "");
+    const buf = isBlobHash(hash) ? readBlob(hash, variant) : null;
+    if (!buf) return new Response(null, { status: 404 });
+    // decrypted vault images must not outlive a lock in the renderer's cache
+    const cache = vault ? "no-store" : "max-age=31536000, immutable";
+    return new Response(new Uint8Array(buf), {
+      headers: { "content-type": "image/png", "cache-control": cache },
+    });
+  });
+}
+
+function getAppSettings(): AppSettings {
+  const popupShortcut = getSetting("popupShortcut") ?? "CommandOrControl+Shift+V";
+  const closeOnCopy = (getSetting("closeOnCopy") ?? "true") === "true";
+  const closeOnCopyDelayMs = Number(getSetting("closeOnCopyDelayMs") ?? "0");
+  const closeOnBlur = (getSetting("closeOnBlur") ?? "false") === "true";
+  const enterPastes = (getSetting("enterPastes") ?? "false") === "true";
+  const startAtLogin = (getSetting("startAtLogin") ?? "false") === "true";
+  const dedupeMode = toDedupeMode(getSetting("dedupeMode"));
+  const retention = normalizePolicy(safeJson<Partial<RetentionPolicy>>(getSetting("retention"), DEFAULT_RETENTION));
+  const sensitive = normalizeSensitive(safeJson<Partial<SensitivePolicy>>(getSetting("sensitive"), DEFAULT_SENSITIVE));
+  // sealed like clip text while the vault is on: a rule made from a clip repeats its text
+  const exclusions = normalizeExclusions(safeJson<unknown>(openValue(getSetting("exclusions")) ?? undefined, []));
+  const vaultAutoLockMinutes = Math.max(0, Number(getSetting("vaultAutoLockMinutes") ?? "5") || 0);
+  const colorLabels = normalizeLabels(safeJson<unknown>(getSetting("colorLabels"), DEFAULT_LABELS));
+  const lang = ((getSetting("lang") ?? "en") === "km" ? "km" : "en") as Lang;
+  const theme = safeJson<Theme>(getSetting("theme"), DEFAULT_THEME);
+
+  return {
+    popupShortcut,
+    closeOnCopy,
+    closeOnCopyDelayMs,
+    closeOnBlur,
+    enterPastes,
+    startAtLogin,
+    dedupeMode,
+    retention,
+    sensitive,
+    exclusions,
+    vaultAutoLockMinutes,
+    colorLabels,
+    lang,
+    theme,
+  };
+}
+
+function toDedupeMode(v: unknown): DedupeMode {
+  return v === "off" || v === "consecutive" ? v : "history";
+}
+
+function savePartialSettings(partial: Partial<AppSettings>) {
+  if (typeof partial.popupShortcut === "string") setSetting("popupShortcut", partial.popupShortcut);
+  if (typeof partial.closeOnCopy === "boolean") setSetting("closeOnCopy", String(partial.closeOnCopy));
+  if (typeof partial.closeOnCopyDelayMs === "number") setSetting("closeOnCopyDelayMs", String(partial.closeOnCopyDelayMs));
+  if (typeof partial.closeOnBlur === "boolean") setSetting("closeOnBlur", String(partial.closeOnBlur));
+  if (typeof partial.enterPastes === "boolean") setSetting("enterPastes", String(partial.enterPastes));
+  if (typeof partial.startAtLogin === "boolean") setSetting("startAtLogin", String(partial.startAtLogin));
+  if (typeof partial.dedupeMode === "string") setSetting("dedupeMode", toDedupeMode(partial.dedupeMode));
+  if (partial.retention) setSetting("retention", JSON.stringify(normalizePolicy(partial.retention)));
+  if (partial.sensitive) setSetting("sensitive", JSON.stringify(normalizeSensitive(partial.sensitive)));
+  if (partial.exclusions) setSetting("exclusions", sealValue(JSON.stringify(normalizeExclusions(partial.exclusions))));
+  if (typeof partial.vaultAutoLockMinutes === "number") {
+    setSetting("vaultAutoLockMinutes", String(Math.max(0, Math.floor(partial.vaultAutoLockMinutes))));
+  }
+  if (partial.colorLabels) setSetting("colorLabels", JSON.stringify(normalizeLabels(partial.colorLabels)));
+  if (typeof partial.lang === "string") setSetting("lang", partial.lang === "km" ? "km" : "en");
+  if (partial.theme) setSetting("theme", JSON.stringify({ ...DEFAULT_THEME, ...partial.theme }));
+}
+
+function rowToClip(r: any, policy?: SensitivePolicy): ClipItem {
+  const text = openValue(r.text) ?? undefined;
+  const sensitive = r.sensitiveJson ? safeJson<string[]>(r.sensitiveJson, []) : [];
+
+  return {
+    id: r.id,
+    kind: r.kind,
+    text,
+    imageHash: r.imageHash ?? undefined,
+    imageUrl: r.imageHash ? blobUrl(r.imageHash, "image") : undefined,
+    thumbUrl: r.imageHash ? blobUrl(r.imageHash, "thumb") : undefined,
+    imageName: openValue(r.imageName) ?? undefined,
+    richFormats: r.kind === "rich" ? (["html", "rtf"] as const).filter((f) => r[f] != null) : undefined,
+    files: r.filesJson ? safeJson<string[]>(openValue(r.filesJson) ?? undefined, []) : undefined,
+    createdAt: r.createdAt,
+    updatedAt: r.updatedAt ?? undefined,
+    pinned: r.pinned,
+    tags: safeJson<string[]>(openValue(r.tagsJson) ?? undefined, []),
+    useCount: r.useCount ?? 1,
+    borderColor: r.borderColor ?? undefined,
+    bgColor: r.bgColor ?? undefined,
+    contentType: (openValue(r.contentType) || undefined) as ContentType | undefined,
+    language: openValue(r.language) || undefined,
+    languageManual: r.languageManual ? true : undefined,
+    sensitive: sensitive.length ? sensitive : undefined,
+    preview:
+      sensitive.length && text !== undefined
+        ? redactedPreview(text, sensitive, policy ?? getAppSettings().sensitive)
+        : undefined,
+    expiresAt: r.expiresAt ?? undefined,
+    deletedAt: r.deletedAt ?? undefined,
+  };
+}
+
+// collectionId: only clips in that collection, in its own order unless the search ranks them.
+// trash: the deleted clips instead, most recently deleted first (collectionId is ignored)
+type HistoryPage = { cursor?: string; limit?: number; collectionId?: string; trash?: boolean };
+
+type HistoryResult = { ok: true; items: ClipItem[]; nextCursor?: string } | { ok: false; reason: string };
+
+// Opaque to the renderer. Plain listing pages by key ("k:" + [pinned, sortOrder, createdAt, id] of the last row),
+// ranked search, collection and trash pages by offset ("o:" + n) since bm25 scores and positions are not a stable key.
+type Cursor = { key: [number, number, number, string] } | { offset: number };
+
+function encodeCursor(c: Cursor) {
+  return "key" in c ? `k:${JSON.stringify(c.key)}` : `o:${c.offset}`;
+}
+
+function decodeCursor(raw: string | undefined): Cursor | null | undefined {
+  if (!raw) return undefined;
+  if (raw.startsWith("o:")) {
+    const offset = Number(raw.slice(2));
+    return Number.isInteger(offset) && offset >= 0 ? { offset } : null;
+  }
+  if (raw.startsWith("k:")) {
+    const key = safeJson<unknown>(raw.slice(2), null);
+    if (Array.isArray(key) && key.length === 4 && typeof key[3] === "string") {
+      return { key: [Number(key[0]), Number(key[1]), Number(key[2]), key[3]] };
+    }
+  }
+  return null;
+}
+
+function getHistory(query: string, page: HistoryPage = {}): HistoryResult {
+  if (isLocked()) return { ok: false, reason: "Vault is locked" };
+
+  const settings = getAppSettings();
+  const parsed = parseSearchQuery((query ?? "").trim(), Date.now(), settings.colorLabels);
+  if (!parsed.ok) return parsed;
+
+  const cursor = decodeCursor(page.cursor);
+  if (cursor === null) return { ok: false, reason: "Invalid cursor" };
+
+  const limit = Math.min(Math.max(Math.floor(Number(page.limit) || PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const { match, where, params } = queryToSql(parsed.query);
+  const policy = settings.sensitive;
+  const trash = !!page.trash;
+  const collectionId =
+    !trash && typeof page.collectionId === "string" && page.collectionId ? page.collectionId : undefined;
+  where.push(trash ? "c.deletedAt IS NOT NULL" : "c.deletedAt IS NULL");
+
+  try {
+    if (!match && trash) {
+      if (cursor && !("offset" in cursor)) return { ok: false, reason: "Invalid cursor" };
+      const offset = cursor?.offset ?? 0;
+
+      const rows = db
+        .prepare(
+          `SELECT c.* FROM clips c WHERE ${where.join(" AND ")}
+           ORDER BY c.deletedAt DESC, c.id DESC LIMIT ? OFFSET ?`
+        )
+        .all(...params, limit + 1, offset) as any[];
+
+      const items = rows.slice(0, limit).map((r) => rowToClip(r, policy));
+      const nextCursor = rows.length > limit ? encodeCursor({ offset: offset + limit }) : undefined;
+      return { ok: true, items, nextCursor };
+    }
+
+    if (!match && collectionId) {
+      if (cursor && !("offset" in cursor)) return { ok: false, reason: "Invalid cursor" };
+      const offset = cursor?.offset ?? 0;
+
+      const cond = ["cc.collectionId = ?", ...where].join(" AND ");
+      const rows = db
+        .prepare(
+          `SELECT c.* FROM collection_clips cc JOIN clips c ON c.id = cc.clipId
+           WHERE ${cond} ORDER BY cc.position, c.id LIMIT ? OFFSET ?`
+        )
+        .all(collectionId, ...params, limit + 1, offset) as any[];
+
+      const items = rows.slice(0, limit).map((r) => rowToClip(r, policy));
+      const nextCursor = rows.length > limit ? encodeCursor({ offset: offset + limit }) : undefined;
+      return { ok: true, items, nextCursor };
+    }
+
+    if (collectionId) {
+      where.push("c.id IN (SELECT clipId FROM collection_clips WHERE collectionId = ?)");
+      params.push(collectionId);
+    }
+
+    if (!match) {
+      if (cursor && !("key" in cursor)) return { ok: false, reason: "Invalid cursor" };
+
+      const conds = [...where];
+      const args = [...params];
+      if (cursor) {
+        conds.push("(c.pinned, c.sortOrder, c.createdAt, c.id) < (?, ?, ?, ?)");
+        args.push(...cursor.key);
+      }
+
+      const cond = conds.length ? `WHERE ${conds.join(" AND ")}` : "";
+      const rows = db
+        .prepare(
+          `SELECT c.* FROM clips c ${cond} ORDER BY c.pinned DESC, c.sortOrder DESC, c.createdAt DESC, c.id DESC LIMIT ?`
+        )
+        .all(...args, limit + 1) as any[];
+
+      const items = rows.slice(0, limit).map((r) => rowToClip(r, policy));
+      const last = rows[limit - 1];
+      const nextCursor =
+        rows.length > limit ? encodeCursor({ key: [last.pinned, last.sortOrder, last.createdAt, last.id] }) : undefined;
+
+      return { ok: true, items, nextCursor };
+    }
+
+    if (cursor && !("offset" in cursor)) return { ok: false, reason: "Invalid cursor" };
+    const offset = cursor?.offset ?? 0;
+
+    const cond = ["clips_fts MATCH ?", ...where].join(" AND ");
+    const rows = db
+      .prepare(
+        `SELECT c.*,
+           snippet(clips_fts, CASE c.kind WHEN 'image' THEN 1 ELSE 0 END, ?, ?, '…', 32) AS snippet
+         FROM clips_fts
+         JOIN clips c ON c.rowid = clips_fts.rowid
+         WHERE ${cond}
+         ORDER BY bm25(clips_fts, 10.0, 5.0, 3.0), c.createdAt DESC, c.id DESC
+         LIMIT ? OFFSET ?`
+      )
+      .all(SNIPPET_OPEN, SNIPPET_CLOSE, match, ...params, limit + 1, offset) as any[];
+
+    // a snippet would show the secret the preview hides
+    const items = rows.slice(0, limit).map((r) => {
+      const c = rowToClip(r, policy);
+      return { ...c, snippet: c.preview ? undefined : r.snippet || undefined };
+    });
+    const nextCursor = rows.length > limit ? encodeCursor({ offset: offset + limit }) : undefined;
+
+    return { ok: true, items, nextCursor };
+  } catch (err: any) {
+    console.error("search failed", err);
+    return { ok: false, reason: err?.message ?? String(err) };
+  }
+}
+
+// a repeat moves the clip to the top and counts the use; pins, tags and colors stay as they are
+function bumpClip(id: string) {
+  const now = Date.now();
+  db.prepare("UPDATE clips SET createdAt=?, updatedAt=?, useCount=useCount+1 WHERE id=?").run(now, now, id);
+}
+
+// copying from the popup: counted, but the list order stays put while it is open
+function countUse(id: string) {
+  db.prepare("UPDATE clips SET useCount=useCount+1 WHERE id=?").run(id);
+  notifyHistoryUpdated();
+}
+
+function findTextRepeat(hash: string, mode: DedupeMode, kind: ClipKind = "text"): string | undefined {
+  if (mode === "off") return undefined;
+
+  if (mode === "consecutive") {
+    // the newest clip overall, not the newest of this kind: anything copied in between breaks the run
+    const newest = db
+      .prepare("SELECT id, kind, textHash FROM clips WHERE deletedAt IS NULL ORDER BY createdAt DESC LIMIT 1")
+      .get() as { id: string; kind: ClipKind; textHash: string | null } | undefined;
+    return newest?.textHash === hash && newest.kind === kind ? newest.id : undefined;
+  }
+
+  const r = db
+    .prepare("SELECT id FROM clips WHERE textHash=? AND kind=? AND deletedAt IS NULL ORDER BY createdAt DESC LIMIT 1")
+    .get(hash, kind) as { id: string } | undefined;
+  return r?.id;
+}
+
+type RichFormats = { html?: string; rtf?: string };
+
+// formats: extra clipboard formats present, for the password-manager markers (see sensitive.ts).
+// rich: markup copied along with the text; with it the clip is stored as kind "rich"
+// the id of the stored (or repeated) clip; undefined when a detected secret was dropped
+function upsertClipText(raw: string, formats: string[] = [], rich: RichFormats = {}): string | undefined {
+  const s = getAppSettings();
+  const hit = detectSensitive(raw, s.sensitive, formats);
+  if (hit && s.sensitive.action === "drop") return;
+
+  const masked = !!hit && s.sensitive.action === "mask";
+  const text = masked ? redact(raw, hit) : raw;
+  // only clips that still hold the secret are flagged, and they expire
+  const secret = hit && s.sensitive.action === "expire" ? JSON.stringify(hit.ids) : null;
+  const expiresAt = secret ? Date.now() + s.sensitive.expireMinutes * 60_000 : null;
+
+  // masking can't reach into the markup, so a masked clip keeps only its plain text
+  const html = !masked && rich.html ? rich.html : null;
+  const rtf = !masked && rich.rtf ? rich.rtf : null;
+  const kind: ClipKind = html || rtf ? "rich" : "text";
+
+  const hash = textHash(dedupeKey(kind, text, html, rtf));
+  const repeat = findTextRepeat(hash, s.dedupeMode, kind);
+  if (repeat) {
+    bumpClip(repeat);
+    if (secret) {
+      db.prepare("UPDATE clips SET sensitiveJson=?, expiresAt=? WHERE id=? AND pinned=0").run(secret, expiresAt, repeat);
+    }
+    return repeat;
+  }
+
+  const id = randId();
+  const classified = classifyText(text);
+  db.prepare(
+    `INSERT INTO clips(id, kind, text, textHash, html, rtf, sizeBytes, createdAt, pinned, tagsJson, contentType,
+                       language, sensitiveJson, expiresAt)
+     VALUES(?,?,?,?,?,?,?,?,0,?,?,?,?,?)`
+  ).run(
+    id,
+    kind,
+    sealValue(text),
+    hash,
+    html != null ? sealValue(html) : null,
+    rtf != null ? sealValue(rtf) : null,
+    textBytes(text) + textBytes(html ?? "") + textBytes(rtf ?? ""),
+    Date.now(),
+    sealValue("[]"),
+    classified.contentType,
+    classified.language,
+    secret,
+    expiresAt
+  );
+  return id;
+}
+
+// only the paths are stored; the files themselves may be gone by the time the clip is copied back
+function upsertClipFiles(paths: string[]) {
+  const text = paths.join("\n");
+  const hash = textHash(dedupeKey("files", text));
+  const repeat = findTextRepeat(hash, getAppSettings().dedupeMode, "files");
+  if (repeat) {
+    bumpClip(repeat);
+    return;
+  }
+
+  db.prepare(
+    "INSERT INTO clips(id, kind, text, textHash, filesJson, sizeBytes, createdAt, pinned, tagsJson) VALUES(?,?,?,?,?,?,?,0,?)"
+  ).run(randId(), "files", sealValue(text), hash, sealValue(JSON.stringify(paths)), textBytes(text), Date.now(), sealValue("[]"));
+}
+
+// same picture anywhere in history -> move that clip to the top instead of adding a copy
+// images are deduped in every mode: the blob is shared anyway
+function findImageRepeat(hash: string): string | undefined {
+  const r = db
+    .prepare("SELECT id FROM clips WHERE imageHash=? AND deletedAt IS NULL ORDER BY createdAt DESC LIMIT 1")
+    .get(hash) as { id: string } | undefined;
+  return r?.id;
+}
+
+function upsertClipImage(png: Buffer, imageName?: string) {
+  const now = Date.now();
+  const hash = putImage(png);
+
+  const existing = findImageRepeat(hash);
+  if (existing) {
+    bumpClip(existing);
+    return;
+  }
+
+  db.prepare(
+    "INSERT INTO clips(id, kind, imageHash, imageName, sizeBytes, createdAt, pinned, tagsJson) VALUES(?,?,?,?,?,?,0,?)"
+  ).run(randId(), "image", hash, sealValue(imageName ?? ""), blobSize(hash), now, sealValue("[]"));
+}
+
+// -------------------- retention --------------------
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+const EXPIRY_CHECK_MS = 30 * 1000;
+
+function retentionRows(): RetentionRow[] {
+  const rows = db
+    .prepare(
+      `SELECT id, createdAt, COALESCE(sizeBytes, 0) AS sizeBytes, pinned, tagsJson FROM clips
+       WHERE deletedAt IS NULL ORDER BY createdAt DESC`
+    )
+    .all() as RetentionRow[];
+  return vault ? rows.map((r) => ({ ...r, tagsJson: openValue(r.tagsJson) ?? "[]" })) : rows;
+}
+
+function getStorageInfo(policy?: Partial<RetentionPolicy>) {
+  const rows = retentionRows();
+  const plan = planPrune(rows, policy ? normalizePolicy(policy) : getAppSettings().retention);
+
+  let dbBytes = 0;
+  try {
+    dbBytes = fs.statSync(userDataPath("clipvault.sqlite")).size;
+  } catch {
+    // not created yet
+  }
+
+  return {
+    items: rows.length,
+    clipBytes: rows.reduce((sum, r) => sum + r.sizeBytes, 0),
+    dbBytes,
+    wouldRemove: { items: plan.ids.length, bytes: plan.bytes, byReason: plan.byReason },
+  };
+}
+
+// returns how many clips were removed
+function pruneHistory(): number {
+  // a locked vault can't tell which clips are tagged "keep"
+  if (isLocked()) return 0;
+
+  const plan = planPrune(retentionRows(), getAppSettings().retention);
+  if (!plan.ids.length) return 0;
+
+  // for good: the limits would only fill the trash instead
+  purgeClips(plan.ids);
+  notifyHistoryUpdated();
+  return plan.ids.length;
+}
+
+// detected secrets stored with the "expire" action; pinning one keeps it
+function purgeExpired() {
+  const res = db.prepare("DELETE FROM clips WHERE expiresAt <= ? AND pinned = 0").run(Date.now());
+  if (res.changes) notifyHistoryUpdated();
+}
+
+function startRetentionJob() {
+  const run = () => {
+    try {
+      pruneHistory();
+      purgeOldTrash();
+    } catch (err) {
+      console.error("pruneHistory failed", err);
+    }
+  };
+  run();
+  setInterval(run, PRUNE_INTERVAL_MS);
+
+  purgeExpired();
+  setInterval(() => {
+    try {
+      purgeExpired();
+    } catch (err) {
+      console.error("purgeExpired failed", err);
+    }
+  }, EXPIRY_CHECK_MS);
+}
+
+// -------------------- trash --------------------
+// Deleting from the popup (a clip, a selection, merged sources, Clear All) only sets deletedAt: the
+// clip drops out of every list, search and dedupe, but keeps its pin, tags and collections until it
+// is restored or purged. Purged after trashDays (see retention.ts), by "Delete permanently" or when
+// the trash is emptied. Retention limits, expiring secrets and a replacing import delete for good.
+
+// returns the ids moved, for Undo
+function trashClips(ids: string[]): string[] {
+  const now = Date.now();
+  const trash = db.prepare("UPDATE clips SET deletedAt=? WHERE id=? AND deletedAt IS NULL");
+  const moved: string[] = [];
+  db.transaction(() => {
+    for (const id of ids) if (trash.run(now, id).changes) moved.push(id);
+  })();
+  return moved;
+}
+
+// Clear All
+function trashAll(keepPinned: boolean) {
+  const rows = db
+    .prepare(`SELECT id FROM clips WHERE deletedAt IS NULL ${keepPinned ? "AND pinned = 0" : ""}`)
+    .all() as { id: string }[];
+  return trashClips(rows.map((r) => r.id));
+}
+
+// back where they were: createdAt, pins and their order are untouched by the trash. A clip copied
+// again since it was deleted goes through the same dedupe as a capture, the other way round: the
+// restored clip keeps its pin, colors, collections and language, takes over the newer copy's uses,
+// tags and copy time, and the newer copy goes to the trash in its place (so nothing is lost).
+function restoreClips(ids: string[]) {
+  const get = db.prepare("SELECT kind, textHash, imageHash FROM clips WHERE id=? AND deletedAt IS NOT NULL");
+  const getLive = db.prepare("SELECT createdAt, useCount, tagsJson FROM clips WHERE id=?");
+  const restore = db.prepare("UPDATE clips SET deletedAt=NULL WHERE id=?");
+  const absorb = db.prepare("UPDATE clips SET useCount=useCount+?, createdAt=MAX(createdAt, ?) WHERE id=?");
+  const mode = getAppSettings().dedupeMode;
+  let restored = 0;
+
+  db.transaction(() => {
+    for (const id of ids) {
+      const r = get.get(id) as { kind: ClipKind; textHash: string | null; imageHash: string | null } | undefined;
+      if (!r) continue;
+
+      const live =
+        r.kind === "image"
+          ? r.imageHash && findImageRepeat(r.imageHash)
+          : r.textHash && findTextRepeat(r.textHash, mode, r.kind);
+      restore.run(id);
+      restored++;
+      if (!live) continue;
+
+      const l = getLive.get(live) as { createdAt: number; useCount: number | null; tagsJson: string };
+      absorb.run(l.useCount ?? 1, l.createdAt, id);
+      // also stamps updatedAt
+      updateClipsTags([id], safeJson<string[]>(openValue(l.tagsJson) ?? "[]", []), []);
+      trashClips([live]);
+    }
+  })();
+
+  return restored;
+}
+
+function trashedIds(before?: number) {
+  const rows = (
+    before === undefined
+      ? db.prepare("SELECT id FROM clips WHERE deletedAt IS NOT NULL").all()
+      : db.prepare("SELECT id FROM clips WHERE deletedAt < ?").all(before)
+  ) as { id: string }[];
+  return rows.map((r) => r.id);
+}
+
+function trashCount() {
+  return (db.prepare("SELECT COUNT(*) AS n FROM clips WHERE deletedAt IS NOT NULL").get() as { n: number }).n;
+}
+
+function purgeOldTrash() {
+  const cutoff = trashCutoff(getAppSettings().retention);
+  if (cutoff === null) return;
+  if (purgeClips(trashedIds(cutoff))) notifyHistoryUpdated();
+}
+
+// -------------------- snippets --------------------
+// Reusable texts with placeholders (see snippets.ts), kept apart from the clip history.
+// Name and body are sealed like clip text while the vault is on.
+
+type Snippet = {
+  id: string;
+  name: string;
+  body: string;
+  createdAt: number;
+  updatedAt?: number;
+  useCount: number;
+  // {{input:Name}} fields the popup asks for before expanding
+  inputs: string[];
+};
+
+// snippets shown above the clips for a search
+const SNIPPET_MATCHES = 5;
+
+function rowToSnippet(r: any): Snippet {
+  const body = openValue(r.body) ?? "";
+  return {
+    id: r.id,
+    name: openValue(r.name) ?? "",
+    body,
+    createdAt: r.createdAt,
+    updatedAt: r.updatedAt ?? undefined,
+    useCount: r.useCount,
+    inputs: snippetInputs(body),
+  };
+}
+
+function listSnippets(): Snippet[] {
+  const rows = db.prepare("SELECT * FROM snippets").all() as any[];
+  return rows.map(rowToSnippet).sort((a, b) => b.useCount - a.useCount || a.name.localeCompare(b.name));
+}
+
+// plain words only, each in the name or the body; a query with filters (tag:, /re/, -x) is about clips
+function searchSnippets(query: string): Snippet[] {
+  const words = query.toLowerCase().replace(/"/g, " ").split(/\s+/).filter(Boolean);
+  if (!words.length || words.some((w) => /^[-/]|^[a-z]+:/.test(w))) return [];
+
+  return listSnippets()
+    .filter((sn) => {
+      const hay = `${sn.name}\n${sn.body}`.toLowerCase();
+      return words.every((w) => hay.includes(w));
+    })
+    .slice(0, SNIPPET_MATCHES);
+}
+
+function saveSnippet(input: { id?: string; name?: string; body?: string }) {
+  const name = String(input?.name ?? "").trim();
+  const body = String(input?.body ?? "");
+  if (!name) return { ok: false as const, reason: "Name is required" };
+  if (!body.trim()) return { ok: false as const, reason: "Text is required" };
+
+  const now = Date.now();
+  if (input.id) {
+    const res = db
+      .prepare("UPDATE snippets SET name=?, body=?, updatedAt=? WHERE id=?")
+      .run(sealValue(name), sealValue(body), now, input.id);
+    if (!res.changes) return { ok: false as const, reason: "Snippet not found" };
+    return { ok: true as const, id: input.id };
+  }
+
+  const id = randId();
+  db.prepare("INSERT INTO snippets(id, name, body, createdAt) VALUES(?,?,?,?)").run(id, sealValue(name), sealValue(body), now);
+  return { ok: true as const, id };
+}
+
+// the renderer puts the text on the clipboard itself (setClipboard) so copy and paste work as for clips
+function useSnippet(id: string, inputs: Record<string, string>) {
+  const r = db.prepare("SELECT * FROM snippets WHERE id=?").get(id);
+  if (!r) return { ok: false as const, reason: "Snippet not found" };
+
+  const sn = rowToSnippet(r);
+  const expanded = expandSnippet(sn.body, {
+    now: new Date(),
+    clipboard: clipboard.readText() || "",
+    inputs: inputs && typeof inputs === "object" ? inputs : {},
+  });
+  db.prepare("UPDATE snippets SET useCount=useCount+1 WHERE id=?").run(id);
+  return { ok: true as const, ...expanded };
+}
+
+// -------------------- collections --------------------
+// Named, ordered groups of clips (tabs in the popup). A clip can be in several; deleting a clip
+// drops its memberships (trigger from migration 10), deleting a collection leaves the clips alone.
+// Names are sealed like tags.
+
+type Collection = { id: string; name: string; count: number };
+
+function listCollections(): Collection[] {
+  const rows = db
+    .prepare(
+      `SELECT k.id, k.name,
+         (SELECT COUNT(*) FROM collection_clips cc JOIN clips c ON c.id = cc.clipId
+          WHERE cc.collectionId = k.id AND c.deletedAt IS NULL) AS count
+       FROM collections k ORDER BY k.sortOrder, k.createdAt`
+    )
+    .all() as { id: string; name: string; count: number }[];
+  return rows.map((r) => ({ id: r.id, name: openValue(r.name) ?? "", count: r.count }));
+}
+
+function createCollection(name: string) {
+  const n = String(name ?? "").trim();
+  if (!n) return { ok: false as const, reason: "Name is required" };
+
+  const id = randId();
+  const last = db.prepare("SELECT MAX(sortOrder) AS m FROM collections").get() as { m: number | null };
+  db.prepare("INSERT INTO collections(id, name, sortOrder, createdAt) VALUES(?,?,?,?)").run(
+    id,
+    sealValue(n),
+    (last.m ?? -1) + 1,
+    Date.now()
+  );
+  return { ok: true as const, id };
+}
+
+function renameCollection(id: string, name: string) {
+  const n = String(name ?? "").trim();
+  if (!n) return { ok: false as const, reason: "Name is required" };
+  const res = db.prepare("UPDATE collections SET name=? WHERE id=?").run(sealValue(n), id);
+  return res.changes ? { ok: true as const } : { ok: false as const, reason: "Collection not found" };
+}
+
+function deleteCollection(id: string) {
+  db.transaction(() => {
+    db.prepare("DELETE FROM collection_clips WHERE collectionId=?").run(id);
+    db.prepare("DELETE FROM collections WHERE id=?").run(id);
+  })();
+}
+
+// appended in the given order; clips already in the collection keep their place
+function addToCollection(collectionId: string, clipIds: string[]) {
+  if (!db.prepare("SELECT 1 FROM collections WHERE id=?").get(collectionId)) {
+    return { ok: false as const, reason: "Collection not found" };
+  }
+
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO collection_clips(collectionId, clipId, position, addedAt)
+    SELECT ?, id, ?, ? FROM clips WHERE id=?
+  `);
+  let added = 0;
+  db.transaction(() => {
+    const last = db.prepare("SELECT MAX(position) AS m FROM collection_clips WHERE collectionId=?").get(collectionId) as {
+      m: number | null;
+    };
+    let pos = (last.m ?? -1) + 1;
+    const now = Date.now();
+    for (const id of clipIds) {
+      if (insert.run(collectionId, pos, now, id).changes) {
+        pos++;
+        added++;
+      }
+    }
+  })();
+  return { ok: true as const, added };
+}
+
+function removeFromCollection(collectionId: string, clipIds: string[]) {
+  const del = db.prepare("DELETE FROM collection_clips WHERE collectionId=? AND clipId=?");
+  db.transaction(() => {
+    for (const id of clipIds) del.run(collectionId, id);
+  })();
+}
+
+// drag-and-drop: clipId takes overId's place and the clips in between shift by one
+function moveInCollection(collectionId: string, clipId: string, overId: string) {
+  const ids = (
+    db.prepare("SELECT clipId FROM collection_clips WHERE collectionId=? ORDER BY position, clipId").all(collectionId) as {
+      clipId: string;
+    }[]
+  ).map((r) => r.clipId);
+
+  const from = ids.indexOf(clipId);
+  const to = ids.indexOf(overId);
+  if (from < 0 || to < 0) return { ok: false as const, reason: "Clip is not in this collection" };
+
+  ids.splice(to, 0, ...ids.splice(from, 1));
+  const update = db.prepare("UPDATE collection_clips SET position=? WHERE collectionId=? AND clipId=?");
+  db.transaction(() => {
+    ids.forEach((id, i) => update.run(i, collectionId, id));
+  })();
+  return { ok: true as const };
+}
+
+// -------------------- tags --------------------
+// Tag names compare case-insensitively, as tag: search does. Each clip's tagsJson is the source of
+// truth; clip_tags (see searchIndex.ts) finds the clips carrying a tag, so a rename only reads those.
+
+type TagInfo = { name: string; count: number };
+
+// trimmed, blank and repeated (case-insensitive) names dropped; the first spelling stays
+function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+  const out: string[] = [];
+  for (const t of tags) {
+    const name = typeof t === "string" ? t.trim() : "";
+    if (name && !out.some((x) => x.toLowerCase() === name.toLowerCase())) out.push(name);
+  }
+  return out;
+}
+
+// most used first
+function listTags(): TagInfo[] {
+  return db
+    .prepare(
+      `SELECT t.tag AS name, COUNT(*) AS count FROM clip_tags t JOIN clips c ON c.id = t.clipId
+       WHERE c.deletedAt IS NULL GROUP BY t.tag ORDER BY count DESC, t.tag`
+    )
+    .all() as TagInfo[];
+}
+
+// Replaces every tag named in `from` with `to` (null removes them) across all clips, in one transaction.
+// `to` takes the place of the first one replaced; returns the number of clips changed.
+function rewriteTags(from: string[], to: string | null) {
+  const names = new Set(from.map((t) => String(t ?? "").trim().toLowerCase()).filter(Boolean));
+  if (!names.size) return 0;
+
+  const rows = db
+    .prepare(
+      `SELECT id, tagsJson FROM clips
+       WHERE id IN (SELECT clipId FROM clip_tags WHERE tag IN (SELECT value FROM json_each(?)))`
+    )
+    .all(JSON.stringify([...names])) as { id: string; tagsJson: string }[];
+
+  const update = db.prepare("UPDATE clips SET tagsJson=?, updatedAt=? WHERE id=?");
+  const now = Date.now();
+  db.transaction(() => {
+    for (const r of rows) {
+      const tags = safeJson<string[]>(openValue(r.tagsJson) ?? "[]", []);
+      const next = tags.flatMap((t) => (names.has(String(t).trim().toLowerCase()) ? (to ? [to] : []) : [t]));
+      update.run(sealValue(JSON.stringify(normalizeTags(next))), now, r.id);
+    }
+  })();
+  return rows.length;
+}
+
+// renaming onto a tag that exists already merges the two
+function renameTag(from: string, to: string) {
+  const name = String(to ?? "").trim();
+  if (!name) return { ok: false as const, reason: "Name is required" };
+  return { ok: true as const, changed: rewriteTags([from], name) };
+}
+
+function mergeTags(names: string[], into: string) {
+  const name = String(into ?? "").trim();
+  if (!name) return { ok: false as const, reason: "Name is required" };
+  if (names.length < 2) return { ok: false as const, reason: "Pick at least two tags" };
+  return { ok: true as const, changed: rewriteTags(names, name) };
+}
+
+// -------------------- exclusion rules --------------------
+// matches listed by testExclusions
+const EXCLUSION_SAMPLES = 50;
+
+type ExclusionTest = {
+  ok: true;
+  scanned: number;
+  matched: number;
+  // rule id -> clips it would have caught (first matching rule only)
+  perRule: Record<string, number>;
+  samples: { id: string; text: string; ruleId: string }[];
+};
+
+// runs rules (saved or not) over the text history, as a preview of what they would have kept out
+function testExclusions(rules: unknown): ExclusionTest {
+  const normalized = normalizeExclusions(rules);
+  const policy = getAppSettings().sensitive;
+  const rows = db
+    .prepare("SELECT * FROM clips WHERE kind IN ('text', 'rich') AND deletedAt IS NULL ORDER BY createdAt DESC")
+    .all() as any[];
+
+  const res: ExclusionTest = { ok: true, scanned: rows.length, matched: 0, perRule: {}, samples: [] };
+  for (const r of rows) {
+    const c = rowToClip(r, policy);
+    const rule = findExclusion(c.text ?? "", normalized);
+    if (!rule) continue;
+
+    res.matched++;
+    res.perRule[rule.id] = (res.perRule[rule.id] ?? 0) + 1;
+    if (res.samples.length < EXCLUSION_SAMPLES) {
+      res.samples.push({ id: c.id, text: (c.preview ?? c.text ?? "").slice(0, 200), ruleId: rule.id });
+    }
+  }
+  return res;
+}
+
+// "Don't record things like this"
+function excludeLikeClip(id: string) {
+  const r = db.prepare("SELECT text FROM clips WHERE id=? AND kind IN ('text', 'rich')").get(id) as
+    | { text: string | null }
+    | undefined;
+  if (!r) return { ok: false as const, reason: "Clip not found" };
+
+  const rule = ruleFromText(openValue(r.text) ?? "");
+  savePartialSettings({ exclusions: [...getAppSettings().exclusions, rule] });
+  notifySettingsUpdated();
+  return { ok: true as const, rule };
+}
+
+// -------------------- batch actions --------------------
+// Multi-select in the list. Each runs in one transaction; the IPC handler sends one historyUpdated.
+
+type MergeOrder = "selection" | "oldest" | "newest";
+
+type MergeOptions = {
+  separator: string;
+  // selection: the order the ids were given in (the list order)
+  order: MergeOrder;
+  deleteSources: boolean;
+};
+
+function cleanIds(ids: unknown): string[] {
+  return Array.isArray(ids) ? [...new Set(ids.filter((id): id is string => typeof id === "string" && !!id))] : [];
+}
+
+// for good, trashed or not
+function purgeClips(ids: string[]) {
+  const get = db.prepare("SELECT imageHash FROM clips WHERE id=?");
+  const del = db.prepare("DELETE FROM clips WHERE id=?");
+  const hashes: (string | null)[] = [];
+
+  let removed = 0;
+  db.transaction(() => {
+    for (const id of ids) {
+      const r = get.get(id) as { imageHash: string | null } | undefined;
+      if (!r) continue;
+      del.run(id);
+      hashes.push(r.imageHash);
+      removed++;
+    }
+  })();
+
+  // blobs are files, so they go once the rows are gone for good. Deleting a file can't be rolled
+  // back, so inside a caller's transaction they are left to the blob sweep after it commits.
+  if (!db.inTransaction) for (const h of new Set(hashes)) releaseBlob(h);
+  return removed;
+}
+
+// a new pin goes to the top of the pinned clips; pinning one again leaves it where it is
+function setClipsPinned(ids: string[], pinned: boolean) {
+  const pin = db.prepare(`
+    UPDATE clips SET pinned=1, sortOrder=(SELECT COALESCE(MAX(sortOrder), 0) + 1 FROM clips WHERE pinned=1)
+    WHERE id=? AND pinned=0
+  `);
+  const unpin = db.prepare("UPDATE clips SET pinned=0, sortOrder=0 WHERE id=?");
+  db.transaction(() => {
+    for (const id of ids) (pinned ? pin : unpin).run(id);
+  })();
+}
+
+// drag-and-drop and Alt+Up/Down: clipId takes overId's place among the pinned clips
+function movePinned(clipId: string, overId: string) {
+  const ids = (
+    db
+      .prepare("SELECT id FROM clips WHERE pinned=1 AND deletedAt IS NULL ORDER BY sortOrder DESC, createdAt DESC, id DESC")
+      .all() as { id: string }[]
+  ).map((r) => r.id);
+
+  const from = ids.indexOf(clipId);
+  const to = ids.indexOf(overId);
+  if (from < 0 || to < 0) return { ok: false as const, reason: "Both clips must be pinned" };
+
+  ids.splice(to, 0, ...ids.splice(from, 1));
+  const update = db.prepare("UPDATE clips SET sortOrder=? WHERE id=?");
+  db.transaction(() => {
+    ids.forEach((id, i) => update.run(ids.length - i, id));
+  })();
+  return { ok: true as const };
+}
+
+// tag names compare case-insensitively, as tag: search does
+function updateClipsTags(ids: string[], add: string[], remove: string[]) {
+  const get = db.prepare("SELECT tagsJson FROM clips WHERE id=?");
+  const update = db.prepare("UPDATE clips SET tagsJson=?, updatedAt=? WHERE id=?");
+  const drop = new Set(remove.map((t) => t.toLowerCase()));
+  const now = Date.now();
+
+  db.transaction(() => {
+    for (const id of ids) {
+      const r = get.get(id) as { tagsJson: string } | undefined;
+      if (!r) continue;
+
+      const tags = safeJson<string[]>(openValue(r.tagsJson) ?? "[]", []).filter((t) => !drop.has(t.toLowerCase()));
+      for (const t of add) {
+        if (!tags.some((x) => x.toLowerCase() === t.toLowerCase())) tags.push(t);
+      }
+      update.run(sealValue(JSON.stringify(tags)), now, id);
+    }
+  })();
+}
+
+// text and rich clips only (their plain text); the result is stored like a capture
+function mergeClips(ids: string[], opts: MergeOptions) {
+  const rows = db
+    .prepare("SELECT id, text, createdAt FROM clips WHERE id IN (SELECT value FROM json_each(?)) AND kind IN ('text', 'rich')")
+    .all(JSON.stringify(ids)) as { id: string; text: string | null; createdAt: number }[];
+  if (rows.length < 2) return { ok: false as const, reason: "Select at least two text clips" };
+
+  if (opts.order === "selection") rows.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+  else rows.sort((a, b) => (opts.order === "oldest" ? a.createdAt - b.createdAt : b.createdAt - a.createdAt));
+
+  const text = rows.map((r) => openValue(r.text) ?? "").join(opts.separator);
+
+  return db.transaction(() => {
+    const id = upsertClipText(text);
+    // dropped as a secret: keep the sources rather than lose the text
+    if (!id) return { ok: false as const, reason: "The merged text holds a secret and was not recorded" };
+
+    if (opts.deleteSources) trashClips(rows.filter((r) => r.id !== id).map((r) => r.id));
+    return { ok: true as const, id, merged: rows.length };
+  })();
+}
+
+// -------------------- backup --------------------
+type ImportMode = "merge" | "replace";
+
+type ImportReport = {
+  ok: true;
+  imported: number;
+  // same id and same content already present (merge only)
+  skipped: number;
+  // id taken by a different clip; imported under a new id
+  renamed: number;
+  errors: RecordError[];
+};
+
+function dateStamp(ts = Date.now()) {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+// ids: only these clips and no settings ("Export selection")
+function buildBackup(ids?: string[]): BackupFile {
+  const rows = (
+    ids
+      ? db
+          .prepare("SELECT * FROM clips WHERE id IN (SELECT value FROM json_each(?)) AND deletedAt IS NULL ORDER BY createdAt DESC")
+          .all(JSON.stringify(ids))
+      : db.prepare("SELECT * FROM clips WHERE deletedAt IS NULL ORDER BY createdAt DESC").all()
+  ) as any[];
+
+  const clips: BackupClip[] = [];
+  for (const r of rows) {
+    // an expiring secret must not outlive its expiry in a backup file
+    if (r.expiresAt && !r.pinned) continue;
+
+    const c = rowToClip(r);
+    const png = c.kind === "image" && c.imageHash ? readBlob(c.imageHash) : null;
+    if (c.kind === "image" && !png) continue; // blob lost; nothing to restore it from
+
+    clips.push({
+      id: c.id,
+      kind: c.kind,
+      text: c.kind === "files" ? undefined : c.text,
+      html: openValue(r.html) ?? undefined,
+      rtf: openValue(r.rtf) ?? undefined,
+      files: c.files,
+      imagePng: png ? png.toString("base64") : undefined,
+      imageName: c.imageName,
+      createdAt: c.createdAt,
+      updatedAt: c.updatedAt,
+      pinned: c.pinned,
+      sortOrder: c.pinned ? r.sortOrder : undefined,
+      tags: c.tags,
+      useCount: c.useCount,
+      borderColor: c.borderColor,
+      bgColor: c.bgColor,
+      sensitive: c.sensitive,
+      language: c.languageManual ? c.language ?? "" : undefined,
+    });
+  }
+
+  return {
+    app: BACKUP_APP,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    settings: ids ? {} : getAppSettings(),
+    clips,
+    collections: backupCollections(new Set(clips.map((c) => c.id)), !ids),
+  };
+}
+
+// memberships of clips left out of the file are dropped; keepEmpty keeps collections with none left
+function backupCollections(exported: Set<string>, keepEmpty: boolean): BackupCollection[] {
+  const members = db.prepare("SELECT clipId FROM collection_clips WHERE collectionId=? ORDER BY position, clipId");
+  return listCollections()
+    .map((k) => ({
+      id: k.id,
+      name: k.name,
+      clipIds: (members.all(k.id) as { clipId: string }[]).map((m) => m.clipId).filter((id) => exported.has(id)),
+    }))
+    .filter((k) => keepEmpty || k.clipIds.length);
+}
+
+async function exportBackup(ids?: string[]) {
+  const res = await dialog.showSaveDialog(win!, {
+    title: ids ? "Export selected clips" : "Export ClipVault backup",
+    defaultPath: `clipvault-${ids ? "selection" : "backup"}-${dateStamp()}.json`,
+    filters: [{ name: "ClipVault backup", extensions: ["json"] }],
+  });
+  if (res.canceled || !res.filePath) return { ok: false as const, canceled: true };
+
+  const backup = buildBackup(ids);
+  fs.writeFileSync(res.filePath, JSON.stringify(backup));
+  return { ok: true as const, path: res.filePath, clips: backup.clips.length };
+}
+
+// idMap: backup id -> id in this DB, for every clip imported or found already present
+function importClips(clips: BackupClip[], mode: ImportMode, idMap = new Map<string, string>()): ImportReport {
+  const report: ImportReport = { ok: true, imported: 0, skipped: 0, renamed: 0, errors: [] };
+
+  const existing = db.prepare("SELECT textHash, imageHash, deletedAt FROM clips WHERE id=?");
+  const insert = db.prepare(`
+    INSERT INTO clips(id, kind, text, textHash, html, rtf, filesJson, imageHash, imageName, sizeBytes, createdAt,
+                      updatedAt, pinned, sortOrder, tagsJson, useCount, borderColor, bgColor, sensitiveJson, contentType,
+                      language, languageManual)
+    VALUES(?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)
+  `);
+
+  const seal = (v: string | undefined) => (v != null ? sealValue(v) : null);
 
-    CREATE TABLE IF NOT EXISTS settings (
-      key TEXT PRIMARY KEY,
-      value TEXT NOT NULL
+  db.transaction(() => {
+    if (mode === "replace") db.prepare("DELETE FROM clips").run();
+
+    // imported pins go above the ones already here, like a new pin, in the order they had in the backup
+    const top = db.prepare("SELECT COALESCE(MAX(sortOrder), 0) AS m FROM clips WHERE pinned=1").get() as { m: number };
+    const pinRank = new Map(
+      clips
+        .filter((c) => c.pinned)
+        .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.createdAt - b.createdAt)
+        .map((c, i) => [c, top.m + i + 1])
     );
-  `);
 
-  ensureColumn("clips", "imageName", `ALTER TABLE clips ADD COLUMN imageName TEXT;`);
-  ensureColumn("clips", "updatedAt", `ALTER TABLE clips ADD COLUMN updatedAt INTEGER;`);
-  ensureColumn("clips", "borderColor", `ALTER TABLE clips ADD COLUMN borderColor TEXT;`);
-  ensureColumn("clips", "bgColor", `ALTER TABLE clips ADD COLUMN bgColor TEXT;`);
+    clips.forEach((c, index) => {
+      try {
+        const png = c.imagePng ? decodePng(c.imagePng) : null;
+        const imageHash = png ? putImage(png) : null;
+        const tHash = c.kind === "image" ? null : textHash(dedupeKey(c.kind, c.text ?? "", c.html, c.rtf));
+
+        let id = c.id;
+        const clash = existing.get(id) as
+          | { textHash: string | null; imageHash: string | null; deletedAt: number | null }
+          | undefined;
+        if (clash) {
+          const same = c.kind === "image" ? clash.imageHash === imageHash : clash.textHash === tHash;
+          if (same) {
+            // restoring a backup brings back what was deleted since; rows only, blob files wait
+            // for the sweep after the import commits
+            if (clash.deletedAt) restoreClips([id]);
+            idMap.set(c.id, id);
+            report.skipped++;
+            return;
+          }
+          id = randId();
+          report.renamed++;
+        }
 
-  if (!getSetting("popupShortcut")) setSetting("popupShortcut", "CommandOrControl+Shift+V");
-  if (!getSetting("lang")) setSetting("lang", "en");
-  if (!getSetting("theme")) setSetting("theme", JSON.stringify(DEFAULT_THEME));
+        const classified = c.kind === "text" || c.kind === "rich" ? classifyText(c.text ?? "") : null;
+        // a pinned language must be one setClipLanguage would accept ("" = plain text)
+        const manualLanguage =
+          classified && c.language != null && (c.language === "" || CODE_LANGUAGES.includes(c.language))
+            ? c.language
+            : null;
+
+        insert.run(
+          id,
+          c.kind,
+          c.kind === "image" ? null : sealValue(c.text ?? ""),
+          tHash,
+          seal(c.html),
+          seal(c.rtf),
+          c.files ? sealValue(JSON.stringify(c.files)) : null,
+          imageHash,
+          c.imageName != null ? sealValue(c.imageName) : c.kind === "image" ? sealValue("") : null,
+          imageHash ? blobSize(imageHash) : textBytes(c.text ?? "") + textBytes(c.html ?? "") + textBytes(c.rtf ?? ""),
+          c.createdAt,
+          c.updatedAt ?? null,
+          c.pinned,
+          pinRank.get(c) ?? 0,
+          sealValue(JSON.stringify(c.tags)),
+          c.useCount,
+          // same rule as setClipColors, so color: filters and palette lookups match
+          normalizeHex(c.borderColor),
+          normalizeHex(c.bgColor),
+          c.sensitive?.length ? JSON.stringify(c.sensitive) : null,
+          classified?.contentType ?? null,
+          manualLanguage != null ? sealValue(manualLanguage) : classified?.language ?? null,
+          manualLanguage != null ? 1 : 0
+        );
+        idMap.set(c.id, id);
+        report.imported++;
+      } catch (err: any) {
+        report.errors.push({ index, id: c.id, reason: err?.message ?? String(err) });
+      }
+    });
+  })();
 
-  if (!getSetting("closeOnCopy")) setSetting("closeOnCopy", "true");
-  if (!getSetting("closeOnCopyDelayMs")) setSetting("closeOnCopyDelayMs", "0");
-  if (!getSetting("closeOnBlur")) setSetting("closeOnBlur", "false");
-  if (!getSetting("startAtLogin")) setSetting("startAtLogin", "false");
+  return report;
 }
 
-function getAppSettings(): AppSettings {
-  const popupShortcut = getSetting("popupShortcut") ?? "CommandOrControl+Shift+V";
-  const closeOnCopy = (getSetting("closeOnCopy") ?? "true") === "true";
-  const closeOnCopyDelayMs = Number(getSetting("closeOnCopyDelayMs") ?? "0");
-  const closeOnBlur = (getSetting("closeOnBlur") ?? "false") === "true";
-  const startAtLogin = (getSetting("startAtLogin") ?? "false") === "true";
-  const lang = ((getSetting("lang") ?? "en") === "km" ? "km" : "en") as Lang;
-  const theme = safeJson<Theme>(getSetting("theme"), DEFAULT_THEME);
+// replace: the backup's collections become the only ones. merge: a collection whose id is
+// already here gets the missing clips appended; its name stays.
+function importCollections(collections: BackupCollection[], mode: ImportMode, idMap: Map<string, string>) {
+  db.transaction(() => {
+    if (mode === "replace") {
+      db.prepare("DELETE FROM collection_clips").run();
+      db.prepare("DELETE FROM collections").run();
+    }
 
-  return {
-    popupShortcut,
-    closeOnCopy,
-    closeOnCopyDelayMs,
-    closeOnBlur,
-    startAtLogin,
-    lang,
-    theme,
-  };
-}
+    const exists = db.prepare("SELECT 1 FROM collections WHERE id=?");
+    const insert = db.prepare("INSERT INTO collections(id, name, sortOrder, createdAt) VALUES(?,?,?,?)");
+    const last = db.prepare("SELECT MAX(sortOrder) AS m FROM collections").get() as { m: number | null };
+    let order = (last.m ?? -1) + 1;
 
-function savePartialSettings(partial: Partial<AppSettings>) {
-  if (typeof partial.popupShortcut === "string") setSetting("popupShortcut", partial.popupShortcut);
-  if (typeof partial.closeOnCopy === "boolean") setSetting("closeOnCopy", String(partial.closeOnCopy));
-  if (typeof partial.closeOnCopyDelayMs === "number") setSetting("closeOnCopyDelayMs", String(partial.closeOnCopyDelayMs));
-  if (typeof partial.closeOnBlur === "boolean") setSetting("closeOnBlur", String(partial.closeOnBlur));
-  if (typeof partial.startAtLogin === "boolean") setSetting("startAtLogin", String(partial.startAtLogin));
-  if (typeof partial.lang === "string") setSetting("lang", partial.lang === "km" ? "km" : "en");
-  if (partial.theme) setSetting("theme", JSON.stringify({ ...DEFAULT_THEME, ...partial.theme }));
+    for (const k of collections) {
+      if (!exists.get(k.id)) insert.run(k.id, sealValue(k.name), order++, Date.now());
+      addToCollection(
+        k.id,
+        k.clipIds.map((c) => idMap.get(c)).filter((c): c is string => !!c)
+      );
+    }
+  })();
 }
 
-function rowToClip(r: any): ClipItem {
-  return {
-    id: r.id,
-    kind: r.kind,
-    text: r.text ?? undefined,
-    imageDataUrl: r.imageDataUrl ?? undefined,
-    imageName: r.imageName ?? undefined,
-    createdAt: r.createdAt,
-    updatedAt: r.updatedAt ?? undefined,
-    pinned: r.pinned,
-    tags: safeJson<string[]>(r.tagsJson, []),
-    borderColor: r.borderColor ?? undefined,
-    bgColor: r.bgColor ?? undefined,
-  };
-}
+async function importBackup(mode: ImportMode): Promise<ImportReport | { ok: false; canceled?: boolean; reason?: string }> {
+  const res = await dialog.showOpenDialog(win!, {
+    title: "Import ClipVault backup",
+    properties: ["openFile"],
+    filters: [{ name: "ClipVault backup", extensions: ["json"] }],
+  });
+  if (res.canceled || !res.filePaths[0]) return { ok: false, canceled: true };
 
-function getHistory(query: string): ClipItem[] {
-  const q = (query ?? "").trim().toLowerCase();
-  const rows = db.prepare("SELECT * FROM clips ORDER BY pinned DESC, createdAt DESC LIMIT 400").all();
-  const items = rows.map(rowToClip);
+  let json: string;
+  try {
+    json = fs.readFileSync(res.filePaths[0], "utf8");
+  } catch (err: any) {
+    return { ok: false, reason: err?.message ?? String(err) };
+  }
 
-  if (!q) return items;
+  const parsed = parseBackup(json);
+  if (!parsed.ok) return parsed;
+  if (mode === "replace" && !parsed.clips.length) {
+    return { ok: false, reason: "Backup has no valid clips; nothing was replaced" };
+  }
 
-  return items.filter((it) => {
-    if (q === "image") return it.kind === "image";
-    const text = (it.text ?? "").toLowerCase();
-    const name = (it.imageName ?? "").toLowerCase();
-    const tags = (it.tags ?? []).join(",").toLowerCase();
-    return text.includes(q) || name.includes(q) || tags.includes(q);
-  });
-}
+  if (mode === "replace") {
+    const confirm = await dialog.showMessageBox(win!, {
+      type: "warning",
+      buttons: ["Replace", "Cancel"],
+      defaultId: 1,
+      cancelId: 1,
+      message: "Replace all clips?",
+      detail: `Your current history will be deleted and replaced with ${parsed.clips.length} clips from the backup.`,
+    });
+    if (confirm.response !== 0) return { ok: false, canceled: true };
+  }
 
-function insertClipText(text: string) {
-  const now = Date.now();
-  const id = randId();
-  db.prepare("INSERT INTO clips(id, kind, text, createdAt, pinned, tagsJson) VALUES(?,?,?,?,0,'[]')")
-    .run(id, "text", text, now);
-}
+  const idMap = new Map<string, string>();
+  const report = importClips(parsed.clips, mode, idMap);
+  importCollections(parsed.collections, mode, idMap);
+  // once both transactions have committed: removes the blobs of replaced and purged clips
+  sweepBlobs(referencedBlobs());
 
-function insertClipImage(imageDataUrl: string, imageName?: string) {
-  const now = Date.now();
-  const id = randId();
-  db.prepare(
-    "INSERT INTO clips(id, kind, imageDataUrl, imageName, createdAt, pinned, tagsJson) VALUES(?,?,?,?,?,0,'[]')"
-  ).run(id, "image", imageDataUrl, imageName ?? "", now);
+  // replace also restores settings; machine-specific ones (shortcut, login item) stay as they are here
+  if (mode === "replace") {
+    const { popupShortcut: _shortcut, startAtLogin: _login, ...rest } = parsed.settings;
+    savePartialSettings(rest as Partial<AppSettings>);
+    notifySettingsUpdated();
+  }
+
+  notifyHistoryUpdated();
+  return { ...report, errors: [...parsed.errors, ...report.errors] };
 }
 
 // -------------------- interaction locks --------------------
@@ -345,52 +1901,117 @@ function getResourcePath(...p: string[]) {
     : path.join(app.getAppPath(), ...p);
 }
 
-// ---- Tray (works on macOS + Windows) ----
-function createTray() {
+// ---- Tray ----
+// clips listed in the tray menu besides the pinned ones
+const TRAY_RECENT = 10;
+const TRAY_LABEL_MAX = 48;
 
-  const trayIconPath = getResourcePath("trayTemplate.png");
-  tray = new Tray(trayIconPath);
-  tray.setToolTip("ClipVault");
-
-  const buildMenu = () => {
-    const checked = app.getLoginItemSettings().openAtLogin;
-
-    return Menu.buildFromTemplate([
-      { label: "Open ClipVault", click: () => showPopupNearCursor() },
-      { type: "separator" },
-      {
-        label: "Start at Login",
-        type: "checkbox",
-        checked,
-        click: (item) => {
-          app.setLoginItemSettings({
-            openAtLogin: item.checked,
-            path: process.execPath,
-            args: [],
-          });
-          setSetting("startAtLogin", String(item.checked));
-          notifySettingsUpdated();
-          tray?.setContextMenu(buildMenu());
-        },
-      },
-      { type: "separator" },
-      { label: `Version ${app.getVersion()}`, enabled: false },
-      {
-        label: "Check for Updates…",
-        click: async () => {
-          dialog.showMessageBox({
-            type: "info",
-            title: "Updates",
-            message: "Auto-update is not configured yet.",
-          });
-        },
+function setStartAtLogin(openAtLogin: boolean) {
+  app.setLoginItemSettings({
+    openAtLogin,
+    path: process.execPath, // important for Windows
+    args: [],
+  });
+  setSetting("startAtLogin", String(openAtLogin));
+  notifySettingsUpdated();
+  return app.getLoginItemSettings().openAtLogin;
+}
+
+function trayLabel(c: ClipItem) {
+  let raw: string;
+  if (c.kind === "image") raw = `Image: ${c.imageName || "untitled"}`;
+  else if (c.kind === "files") {
+    const files = c.files ?? [];
+    raw = `${path.basename(files[0] ?? "")}${files.length > 1 ? ` (+${files.length - 1} files)` : ""}`;
+  } else raw = c.preview ?? c.text ?? "";
+
+  const line = raw.replace(/\s+/g, " ").trim() || "(empty)";
+  const short = line.length > TRAY_LABEL_MAX ? `${line.slice(0, TRAY_LABEL_MAX - 1)}…` : line;
+  // Windows menus read "&" as a mnemonic marker
+  return process.platform === "win32" ? short.replace(/&/g, "&&") : short;
+}
+
+function trayClipItems(): Electron.MenuItemConstructorOptions[] {
+  if (isLocked()) return [{ label: "History is locked", enabled: false }];
+
+  const policy = getAppSettings().sensitive;
+  const pinned = db
+    .prepare("SELECT * FROM clips WHERE pinned=1 AND deletedAt IS NULL ORDER BY sortOrder DESC, createdAt DESC")
+    .all() as any[];
+  const recent = db
+    .prepare("SELECT * FROM clips WHERE pinned=0 AND deletedAt IS NULL ORDER BY createdAt DESC LIMIT ?")
+    .all(TRAY_RECENT) as any[];
+  const item = (r: any): Electron.MenuItemConstructorOptions => ({
+    label: trayLabel(rowToClip(r, policy)),
+    click: () => copyStoredClip(r.id),
+  });
+
+  const out: Electron.MenuItemConstructorOptions[] = [];
+  if (pinned.length) out.push({ label: "Pinned", enabled: false }, ...pinned.map(item), { type: "separator" });
+  out.push({ label: "Recent", enabled: false });
+  out.push(...(recent.length ? recent.map(item) : [{ label: "No clips yet", enabled: false }]));
+  return out;
+}
+
+// the one place the tray menu is built; rebuilt whenever history, settings or the vault change
+function buildTrayMenu() {
+  return Menu.buildFromTemplate([
+    { label: "Open ClipVault", click: () => showPopupNearCursor() },
+    { type: "separator" },
+    ...trayClipItems(),
+    { type: "separator" },
+    {
+      label: "Pause Capture",
+      type: "checkbox",
+      checked: capturePaused,
+      click: (item) => setCapturePaused(item.checked),
+    },
+    {
+      label: "Start at Login",
+      type: "checkbox",
+      checked: app.getLoginItemSettings().openAtLogin,
+      click: (item) => setStartAtLogin(item.checked),
+    },
+    { type: "separator" },
+    { label: `Version ${app.getVersion()}`, enabled: false },
+    {
+      label: "Check for Updates…",
+      click: async () => {
+        dialog.showMessageBox({
+          type: "info",
+          title: "Updates",
+          message: "Auto-update is not configured yet.",
+        });
       },
-      { type: "separator" },
-      { label: "Quit", click: () => app.quit() },
-    ]);
-  };
+    },
+    { type: "separator" },
+    { label: "Quit", click: () => app.quit() },
+  ]);
+}
+
+function refreshTrayMenu() {
+  if (!tray) return;
+  try {
+    tray.setContextMenu(buildTrayMenu());
+  } catch (err) {
+    console.error("tray menu update failed", err);
+  }
+  tray.setToolTip(capturePaused ? "ClipVault (capture paused)" : "ClipVault");
+}
+
+function trayIcon() {
+  // the macOS template image is black-on-transparent, which disappears on dark Linux panels
+  if (process.platform === "linux") {
+    return nativeImage.createFromPath(getResourcePath("icon.png")).resize({ width: 22, height: 22 });
+  }
+  return getResourcePath("trayTemplate.png");
+}
 
-  tray.setContextMenu(buildMenu());
+// Linux: shown through StatusNotifierItem / AppIndicator, which never emits "click",
+// so the menu's "Open ClipVault" is the way in there
+function createTray() {
+  tray = new Tray(trayIcon());
+  refreshTrayMenu();
   tray.on("click", () => showPopupNearCursor());
 }
 
@@ -412,28 +2033,82 @@ function setGlobalShortcut(accelRaw: string) {
 
 // -------------------- clipboard polling --------------------
 let lastText = "";
-let lastImageHash = "";
+let lastImage: ImageSnapshot | null = null;
+let lastFiles = "";
+// from the tray; not persisted, so a restart always captures again
+let capturePaused = false;
 
-// stable signature for images
-function imageHash(img: Electron.NativeImage) {
-  try {
-    const buf = img.toPNG();
-    const head = buf.subarray(0, Math.min(64, buf.length)).toString("hex");
-    return `${buf.length}:${head}`;
-  } catch {
-    return "";
+type ImageSnapshot = { width: number; height: number; bitmap: Buffer };
+
+function imageSnapshot(img: Electron.NativeImage): ImageSnapshot {
+  const { width, height } = img.getSize();
+  return { width, height, bitmap: img.toBitmap() };
+}
+
+// Electron exposes no clipboard change counter, so each tick compares the raw pixels with the last
+// image seen: exact, and a byte comparison stops at the first difference instead of hashing it all
+function isNewImage(snap: ImageSnapshot) {
+  return (
+    !lastImage ||
+    lastImage.width !== snap.width ||
+    lastImage.height !== snap.height ||
+    !lastImage.bitmap.equals(snap.bitmap)
+  );
+}
+
+// called after the app writes an image itself, so polling doesn't record it again
+function markImageAsSeen() {
+  const img = clipboard.readImage();
+  lastImage = img.isEmpty() ? null : imageSnapshot(img);
+}
+
+// whatever was copied while paused is not picked up on resume
+function setCapturePaused(paused: boolean) {
+  capturePaused = paused;
+  if (!paused) {
+    lastText = (clipboard.readText() || "").trim();
+    lastFiles = readFileList(clipboard).join("\n");
+    markImageAsSeen();
   }
+  refreshTrayMenu();
 }
 
 function pollClipboardStart() {
   setInterval(() => {
+    // nothing can be stored without the key; whatever is on the clipboard is picked up after unlock
+    if (isLocked() || capturePaused) return;
+
     try {
-      // text
       const txt = clipboard.readText() || "";
       const trimmed = txt.trim();
+
+      // files: copied in a file manager, which also puts their names on the clipboard as text
+      const files = readFileList(clipboard);
+      if (files.length) {
+        const sig = files.join("\n");
+        if (sig !== lastFiles) {
+          lastFiles = sig;
+          lastText = trimmed;
+          if (!findExclusion(sig, getAppSettings().exclusions)) {
+            upsertClipFiles(files);
+            notifyHistoryUpdated();
+          }
+        }
+        return;
+      }
+      lastFiles = "";
+
+      // text, with HTML / RTF when the source app offered them
       if (trimmed && trimmed !== lastText) {
         lastText = trimmed;
-        insertClipText(trimmed);
+        // the text as stored, which is also what the settings tester matches against
+        if (findExclusion(trimmed, getAppSettings().exclusions)) return;
+
+        upsertClipText(
+          trimmed,
+          CONCEALED_FORMATS.filter((f) => clipboard.has(f)),
+          { html: clipboard.readHTML(), rtf: clipboard.readRTF() }
+        );
         notifyHistoryUpdated();
         return;
       }
@@ -441,11 +2116,10 @@ function pollClipboardStart() {
       // image
       const img = clipboard.readImage();
       if (!img.isEmpty()) {
-        const h = imageHash(img);
-        if (h && h !== lastImageHash) {
-          lastImageHash = h;
-          const dataUrl = img.toDataURL();
-          insertClipImage(dataUrl, "clipboard-image.png");
+        const snap = imageSnapshot(img);
+        if (isNewImage(snap)) {
+          lastImage = snap;
+          upsertClipImage(img.toPNG(), "clipboard-image.png");
           notifyHistoryUpdated();
         }
       }
@@ -455,6 +2129,73 @@ function pollClipboardStart() {
   }, 450);
 }
 
+// copies a stored clip back by id, with every format it was captured with (popup and tray)
+function copyStoredClip(id: string) {
+  const r = db.prepare("SELECT kind, text, html, rtf, filesJson, imageHash FROM clips WHERE id=?").get(id) as
+    | {
+        kind: ClipKind;
+        text: string | null;
+        html: string | null;
+        rtf: string | null;
+        filesJson: string | null;
+        imageHash: string | null;
+      }
+    | undefined;
+  if (!r) return { ok: false, reason: "clip not found" };
+
+  if (r.kind === "image") {
+    // full-size PNG comes straight from the blob store
+    const buf = r.imageHash ? readBlob(r.imageHash) : null;
+    if (!buf) return { ok: false, reason: "image not found" };
+
+    const img = nativeImage.createFromBuffer(buf);
+    if (img.isEmpty()) return { ok: false, reason: "empty image" };
+
+    clipboard.writeImage(img);
+    markImageAsSeen();
+  } else if (r.kind === "files") {
+    const paths = safeJson<string[]>(openValue(r.filesJson) ?? undefined, []);
+    if (!paths.length) return { ok: false, reason: "no files" };
+    writeFileList(clipboard, paths);
+    lastFiles = readFileList(clipboard).join("\n");
+  } else {
+    const text = openValue(r.text) ?? "";
+    clipboard.write({ text, html: openValue(r.html) ?? undefined, rtf: openValue(r.rtf) ?? undefined });
+    lastText = text.trim();
+  }
+
+  countUse(id);
+  return { ok: true };
+}
+
+// -------------------- paste into the previous app --------------------
+// time for the OS to hand focus back before the keystroke is sent
+const PASTE_FOCUS_DELAY_MS = 150;
+
+const pasteInjector: PasteInjector = createPasteInjector();
+
+function pasteSupport() {
+  return { name: pasteInjector.name, reason: pasteInjector.unavailableReason() };
+}
+
+// the clip is already on the clipboard; hide the popup and send the paste keystroke
+async function pasteIntoPreviousApp(cursorBack = 0) {
+  win?.hide();
+  // hiding the window alone leaves macOS focus on ClipVault
+  if (process.platform === "darwin") app.hide();
+
+  const reason = pasteInjector.unavailableReason();
+  if (reason) return { ok: false as const, reason };
+
+  await new Promise((r) => setTimeout(r, PASTE_FOCUS_DELAY_MS));
+  try {
+    await pasteInjector.paste(cursorBack);
+    return { ok: true as const };
+  } catch (err: any) {
+    return { ok: false as const, reason: err?.message ?? String(err) };
+  }
+}
+
 // -------------------- IPC --------------------
 function setupIPC() {
   ipcMain.on("rendererReady", () => {
@@ -471,6 +2212,25 @@ function setupIPC() {
     return { ok: true };
   });
 
+  ipcMain.handle("getPasteSupport", async () => pasteSupport());
+
+  ipcMain.handle("pasteIntoPreviousApp", async (_e, cursorBack?: number) =>
+    pasteIntoPreviousApp(Number(cursorBack) || 0)
+  );
+
+  // "Open" on a URL clip; only web links, so a clip can't launch a local program
+  ipcMain.handle("openUrl", async (_e, url: string) => {
+    let u: URL;
+    try {
+      u = new URL(String(url ?? "").trim());
+    } catch {
+      return { ok: false, reason: "Not a valid URL" };
+    }
+    if (u.protocol !== "http:" && u.protocol !== "https:") return { ok: false, reason: "Only http and https links open" };
+    await shell.openExternal(u.toString());
+    return { ok: true };
+  });
+
   ipcMain.handle("minimizePopup", async () => {
     win?.minimize();
     return { ok: true };
@@ -505,60 +2265,32 @@ function setupIPC() {
 
   ipcMain.handle("setStartAtLogin", async (_e, openAtLogin: boolean) => {
     try {
-      app.setLoginItemSettings({
-        openAtLogin: !!openAtLogin,
-        path: process.execPath,
-        args: [],
-      });
-
-      setSetting("startAtLogin", String(!!openAtLogin));
-      const actual = app.getLoginItemSettings().openAtLogin;
-
-      notifySettingsUpdated();
-      tray?.setContextMenu(
-        Menu.buildFromTemplate([
-          { label: "Open ClipVault", click: () => showPopupNearCursor() },
-          { type: "separator" },
-          {
-            label: "Start at Login",
-            type: "checkbox",
-            checked: actual,
-            click: (item) => {
-              app.setLoginItemSettings({
-                openAtLogin: item.checked,
-                path: process.execPath,
-                args: [],
-              });
-              setSetting("startAtLogin", String(item.checked));
-              notifySettingsUpdated();
-            },
-          },
-          { type: "separator" },
-          { label: `Version ${app.getVersion()}`, enabled: false },
-          { type: "separator" },
-          { label: "Quit", click: () => app.quit() },
-        ])
-      );
-
-      return { ok: true, openAtLogin: actual };
+      return { ok: true, openAtLogin: setStartAtLogin(!!openAtLogin) };
     } catch (err: any) {
       return { ok: false, reason: err?.message ?? String(err) };
     }
   });
 
   // history
-  ipcMain.handle("getHistory", async (_e, query: string) => getHistory(query ?? ""));
+  ipcMain.handle("getHistory", async (_e, query: string, page?: HistoryPage) =>
+    getHistory(query ?? "", page ?? {})
+  );
 
   // clipboard write
   ipcMain.handle(
     "setClipboard",
-    async (_e, payload: { kind: ClipKind; text?: string; imageDataUrl?: string }) => {
+    async (_e, payload: { kind: ClipKind; text?: string; clipId?: string; imageDataUrl?: string }) => {
       try {
         if (payload.kind === "text") {
           clipboard.writeText(payload.text ?? "");
+          // never re-capture our own write; it only counts as a use of the stored clip
+          lastText = (payload.text ?? "").trim();
+          if (payload.clipId) countUse(payload.clipId);
           return { ok: true };
         }
 
+        if (payload.clipId) return copyStoredClip(payload.clipId);
+
         const d = payload.imageDataUrl ?? "";
         if (!d.startsWith("data:image/")) return { ok: false, reason: "invalid image" };
 
@@ -566,6 +2298,7 @@ function setupIPC() {
         if (img.isEmpty()) return { ok: false, reason: "empty image" };
 
         clipboard.writeImage(img);
+        markImageAsSeen();
         return { ok: true };
       } catch (err: any) {
         return { ok: false, reason: err?.message ?? String(err) };
@@ -573,46 +2306,313 @@ function setupIPC() {
     }
   );
 
+  // storage / retention
+  ipcMain.handle("getStorageInfo", async (_e, policy?: Partial<RetentionPolicy>) => getStorageInfo(policy));
+
+  ipcMain.handle("pruneNow", async () => {
+    try {
+      return { ok: true, removed: pruneHistory() };
+    } catch (err: any) {
+      return { ok: false, reason: err?.message ?? String(err) };
+    }
+  });
+
+  // snippets
+  ipcMain.handle("listSnippets", async () => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    return { ok: true, snippets: listSnippets() };
+  });
+
+  ipcMain.handle("searchSnippets", async (_e, query: string) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    return { ok: true, snippets: searchSnippets(String(query ?? "")) };
+  });
+
+  ipcMain.handle("saveSnippet", async (_e, input: { id?: string; name?: string; body?: string }) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    return saveSnippet(input);
+  });
+
+  ipcMain.handle("deleteSnippet", async (_e, id: string) => {
+    db.prepare("DELETE FROM snippets WHERE id=?").run(id);
+    return { ok: true };
+  });
+
+  ipcMain.handle("useSnippet", async (_e, id: string, inputs: Record<string, string>) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    return useSnippet(id, inputs);
+  });
+
+  // exclusion rules
+  ipcMain.handle("testExclusions", async (_e, rules: unknown) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    try {
+      return testExclusions(rules);
+    } catch (err: any) {
+      return { ok: false, reason: err?.message ?? String(err) };
+    }
+  });
+
+  ipcMain.handle("excludeLikeClip", async (_e, id: string) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    return excludeLikeClip(id);
+  });
+
+  // backup
+  ipcMain.handle("exportBackup", async (_e, ids?: string[]) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    try {
+      return await exportBackup(ids === undefined ? undefined : cleanIds(ids));
+    } catch (err: any) {
+      return { ok: false, reason: err?.message ?? String(err) };
+    }
+  });
+
+  ipcMain.handle("importBackup", async (_e, mode: ImportMode) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    try {
+      return await importBackup(mode === "replace" ? "replace" : "merge");
+    } catch (err: any) {
+      return { ok: false, reason: err?.message ?? String(err) };
+    }
+  });
+
+  // vault
+  ipcMain.handle("getVaultStatus", async () => vaultStatus());
+
+  ipcMain.handle("unlockVault", async (_e, passphrase: string) => unlockVault(passphrase));
+
+  ipcMain.handle("lockVault", async () => {
+    lockVault();
+    return { ok: true };
+  });
+
+  ipcMain.handle("enableVault", async (_e, passphrase: string) => enableVault(passphrase));
+
+  ipcMain.handle("disableVault", async (_e, passphrase: string) => disableVault(passphrase));
+
+  // to the trash; ids is what Undo (restoreClips) puts back
   ipcMain.handle("deleteClip", async (_e, id: string) => {
-    db.prepare("DELETE FROM clips WHERE id=?").run(id);
+    const ids = trashClips([String(id ?? "")]);
     notifyHistoryUpdated();
-    return { ok: true };
+    return { ok: true, ids };
   });
 
-  ipcMain.handle("clearAll", async () => {
-    db.prepare("DELETE FROM clips").run();
+  ipcMain.handle("clearAll", async (_e, opts?: { keepPinned?: boolean }) => {
+    const ids = trashAll(!!opts?.keepPinned);
     notifyHistoryUpdated();
-    return { ok: true };
+    return { ok: true, ids };
+  });
+
+  // trash
+  ipcMain.handle("restoreClips", async (_e, ids: string[]) => {
+    // taking over a newer copy reads and rewrites sealed tags
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    const restored = restoreClips(cleanIds(ids));
+    notifyHistoryUpdated();
+    return { ok: true, restored };
   });
 
+  ipcMain.handle("purgeClips", async (_e, ids: string[]) => {
+    // only from the trash; a live clip is deleted by moving it there first
+    const trashed = new Set(trashedIds());
+    const removed = purgeClips(cleanIds(ids).filter((id) => trashed.has(id)));
+    notifyHistoryUpdated();
+    return { ok: true, removed };
+  });
+
+  ipcMain.handle("emptyTrash", async () => {
+    const removed = purgeClips(trashedIds());
+    notifyHistoryUpdated();
+    return { ok: true, removed };
+  });
+
+  ipcMain.handle("trashCount", async () => trashCount());
+
   ipcMain.handle("togglePin", async (_e, id: string) => {
     const r = db.prepare("SELECT pinned FROM clips WHERE id=?").get(id) as { pinned: number } | undefined;
-    const next = r?.pinned ? 0 : 1;
-    db.prepare("UPDATE clips SET pinned=? WHERE id=?").run(next, id);
+    setClipsPinned([id], !r?.pinned);
     notifyHistoryUpdated();
     return { ok: true };
   });
 
   ipcMain.handle("setTags", async (_e, id: string, tags: string[]) => {
-    const safeTags = Array.isArray(tags) ? tags : [];
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
     db.prepare("UPDATE clips SET tagsJson=?, updatedAt=? WHERE id=?")
-      .run(JSON.stringify(safeTags), Date.now(), id);
+      .run(sealValue(JSON.stringify(normalizeTags(tags))), Date.now(), id);
     notifyHistoryUpdated();
     return { ok: true };
   });
 
   ipcMain.handle("updateClipText", async (_e, id: string, text: string) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
     const t = (text ?? "").trim();
-    db.prepare("UPDATE clips SET text=?, updatedAt=? WHERE id=? AND kind='text'")
-      .run(t, Date.now(), id);
+    const c = classifyText(t);
+    db.prepare(
+      `UPDATE clips SET text=?, textHash=?, sizeBytes=?, contentType=?, ${KEEP_MANUAL_LANGUAGE}, updatedAt=?
+       WHERE id=? AND kind='text'`
+    ).run(sealValue(t), textHash(t), textBytes(t), c.contentType, c.language, Date.now(), id);
+    notifyHistoryUpdated();
+    return { ok: true };
+  });
+
+  // null goes back to the detected language; "" shows the clip as plain text
+  ipcMain.handle("setClipLanguage", async (_e, id: string, language: string | null) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    if (language && !CODE_LANGUAGES.includes(language)) return { ok: false, reason: "Unknown language" };
+
+    if (language == null) {
+      const r = db.prepare("SELECT text FROM clips WHERE id=? AND kind IN ('text', 'rich')").get(id) as
+        | { text: string | null }
+        | undefined;
+      if (!r) return { ok: false, reason: "Clip not found" };
+      const c = classifyText(openValue(r.text) ?? "");
+      db.prepare("UPDATE clips SET contentType=?, language=?, languageManual=0 WHERE id=?").run(c.contentType, c.language, id);
+    } else {
+      db.prepare("UPDATE clips SET language=?, languageManual=1 WHERE id=? AND kind IN ('text', 'rich')").run(sealValue(language), id);
+    }
+    notifyHistoryUpdated();
+    return { ok: true };
+  });
+
+  // undefined leaves a color as it is; null or "" clears it
+  ipcMain.handle("setClipColors", async (_e, id: string, colors: { borderColor?: string | null; bgColor?: string | null }) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    const border = colors?.borderColor;
+    const bg = colors?.bgColor;
+    if ([border, bg].some((v) => v && !normalizeHex(v))) return { ok: false, reason: "Invalid color" };
+
+    const given = (v: unknown) => (v === undefined ? 0 : 1);
+    db.prepare(
+      `UPDATE clips SET borderColor = CASE WHEN ? THEN ? ELSE borderColor END,
+                        bgColor = CASE WHEN ? THEN ? ELSE bgColor END, updatedAt = ? WHERE id = ?`
+    ).run(given(border), normalizeHex(border), given(bg), normalizeHex(bg), Date.now(), id);
     notifyHistoryUpdated();
     return { ok: true };
   });
 
   ipcMain.handle("renameClip", async (_e, id: string, name: string) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
     const n = (name ?? "").trim();
     db.prepare("UPDATE clips SET imageName=?, updatedAt=? WHERE id=? AND kind='image'")
-      .run(n, Date.now(), id);
+      .run(sealValue(n), Date.now(), id);
+    notifyHistoryUpdated();
+    return { ok: true };
+  });
+
+  // tag manager
+  ipcMain.handle("listTags", async () => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    return { ok: true, tags: listTags() };
+  });
+
+  ipcMain.handle("renameTag", async (_e, from: string, to: string) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    const res = renameTag(String(from ?? ""), to);
+    if (res.ok) notifyHistoryUpdated();
+    return res;
+  });
+
+  ipcMain.handle("mergeTags", async (_e, names: string[], into: string) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    const res = mergeTags(cleanIds(names), into);
+    if (res.ok) notifyHistoryUpdated();
+    return res;
+  });
+
+  ipcMain.handle("deleteTag", async (_e, name: string) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    const changed = rewriteTags([String(name ?? "")], null);
+    notifyHistoryUpdated();
+    return { ok: true, changed };
+  });
+
+  // collections
+  ipcMain.handle("listCollections", async () => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    return { ok: true, collections: listCollections() };
+  });
+
+  ipcMain.handle("createCollection", async (_e, name: string) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    return createCollection(name);
+  });
+
+  ipcMain.handle("renameCollection", async (_e, id: string, name: string) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    return renameCollection(id, name);
+  });
+
+  ipcMain.handle("deleteCollection", async (_e, id: string) => {
+    deleteCollection(id);
+    notifyHistoryUpdated();
+    return { ok: true };
+  });
+
+  ipcMain.handle("addToCollection", async (_e, collectionId: string, clipIds: string[]) => {
+    const res = addToCollection(collectionId, cleanIds(clipIds));
+    if (res.ok) notifyHistoryUpdated();
+    return res;
+  });
+
+  ipcMain.handle("removeFromCollection", async (_e, collectionId: string, clipIds: string[]) => {
+    removeFromCollection(collectionId, cleanIds(clipIds));
+    notifyHistoryUpdated();
+    return { ok: true };
+  });
+
+  ipcMain.handle("moveInCollection", async (_e, collectionId: string, clipId: string, overId: string) => {
+    const res = moveInCollection(collectionId, clipId, overId);
+    if (res.ok) notifyHistoryUpdated();
+    return res;
+  });
+
+  // batch actions (multi-select)
+  ipcMain.handle("deleteClips", async (_e, ids: string[]) => {
+    const trashed = trashClips(cleanIds(ids));
+    notifyHistoryUpdated();
+    return { ok: true, removed: trashed.length, ids: trashed };
+  });
+
+  ipcMain.handle("movePinned", async (_e, clipId: string, overId: string) => {
+    const res = movePinned(clipId, overId);
+    if (res.ok) notifyHistoryUpdated();
+    return res;
+  });
+
+  ipcMain.handle("setClipsPinned", async (_e, ids: string[], pinned: boolean) => {
+    setClipsPinned(cleanIds(ids), !!pinned);
+    notifyHistoryUpdated();
+    return { ok: true };
+  });
+
+  ipcMain.handle("updateClipsTags", async (_e, ids: string[], change: { add?: string[]; remove?: string[] }) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    const list = (v: unknown) =>
+      Array.isArray(v) ? v.filter((t): t is string => typeof t === "string").map((t) => t.trim()).filter(Boolean) : [];
+    updateClipsTags(cleanIds(ids), list(change?.add), list(change?.remove));
+    notifyHistoryUpdated();
+    return { ok: true };
+  });
+
+  ipcMain.handle("mergeClips", async (_e, ids: string[], opts: Partial<MergeOptions>) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    const order: MergeOrder = opts?.order === "oldest" || opts?.order === "newest" ? opts.order : "selection";
+    const res = mergeClips(cleanIds(ids), {
+      separator: typeof opts?.separator === "string" ? opts.separator : "\n",
+      order,
+      deleteSources: !!opts?.deleteSources,
+    });
+    if (res.ok) notifyHistoryUpdated();
+    return res;
+  });
+
+  // "Copy as…" with "save as a new clip"; goes through the same dedupe and secret checks as a capture
+  ipcMain.handle("addTextClip", async (_e, text: string) => {
+    if (isLocked()) return { ok: false, reason: "Vault is locked" };
+    const t = String(text ?? "");
+    if (!t.trim()) return { ok: false, reason: "Nothing to save" };
+    upsertClipText(t);
     notifyHistoryUpdated();
     return { ok: true };
   });
@@ -620,7 +2620,11 @@ function setupIPC() {
 
 // -------------------- lifecycle --------------------
 app.whenReady().then(() => {
-  dbInit();
+  if (!dbInit()) {
+    app.quit();
+    return;
+  }
+  registerBlobProtocol();
 
   // ✅ Apply "Start at login" immediately at launch
   applyStartAtLoginFromSettings();
@@ -629,6 +2633,8 @@ app.whenReady().then(() => {
   setupIPC();
 
   pollClipboardStart();
+  startRetentionJob();
+  startVaultAutoLock();
 
   // shortcuts
   const s = getAppSettings();
@@ -646,10 +2652,8 @@ app.whenReady().then(() => {
     } catch {
       // ignore
     }
-    createTray();
-  } else if (process.platform === "win32") {
-    createTray();
   }
+  createTray();
 
   app.on("activate", () => {
     if (BrowserWindow.getAllWindows().length === 0) createWindow();
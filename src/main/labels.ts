@@ -0,0 +1,49 @@
+// ============================
+// FILE: src/main/labels.ts
+// Named color labels for clips
+// ============================
+//
+// A label is a color with a name, e.g. red = prod. Labelling a clip sets its borderColor to the
+// label's color; bgColor stays free for a second color. Stored as a JSON list in the "colorLabels"
+// setting. The search term color:prod (or color:#ff5a5a) matches either column.
+
+export type ColorLabel = { color: string; name: string };
+
+export const DEFAULT_LABELS: ColorLabel[] = [
+  { color: "#ff5a5a", name: "red" },
+  { color: "#ffa24c", name: "orange" },
+  { color: "#f5d547", name: "yellow" },
+  { color: "#4cd97b", name: "green" },
+  { color: "#5aa0ff", name: "blue" },
+  { color: "#b57cff", name: "purple" },
+];
+
+const MAX_NAME = 40;
+
+// "#RGB" / "#RRGGBB" (with or without "#") as lowercase "#rrggbb", or null
+export function normalizeHex(v: unknown): string | null {
+  if (typeof v !== "string") return null;
+  const m = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(v.trim());
+  if (!m) return null;
+  const hex = m[1].length === 3 ? [...m[1]].map((c) => c + c).join("") : m[1];
+  return `#${hex.toLowerCase()}`;
+}
+
+// drops entries without a valid color. Names are kept as typed (settings save on every keystroke);
+// lookups trim them, and the first of two equal names wins.
+export function normalizeLabels(raw: unknown): ColorLabel[] {
+  if (!Array.isArray(raw)) return [];
+
+  const out: ColorLabel[] = [];
+  for (const r of raw) {
+    const color = normalizeHex(r?.color);
+    if (color) out.push({ color, name: String(r?.name ?? "").slice(0, MAX_NAME) });
+  }
+  return out;
+}
+
+// color:<value> — a label name (case-insensitive) or a hex color
+export function resolveLabel(value: string, labels: ColorLabel[]): string | null {
+  const v = value.trim().toLowerCase();
+  return labels.find((l) => l.name.trim() && l.name.trim().toLowerCase() === v)?.color ?? normalizeHex(v);
+}
@@ -0,0 +1,408 @@
+// ============================
+// FILE: src/main/migrations.ts
+// Versioned schema migrations for clipvault.sqlite
+// ============================
+//
+// schema_version holds one row per applied migration; the DB is at MAX(version).
+// At startup every migration above that runs, in order, inside one transaction,
+// after the DB file has been copied to userData/backups. A failure rolls the whole
+// batch back and leaves the DB exactly as it was.
+//
+// To change the schema, append a migration with the next version number.
+// Never edit or reorder one that has shipped.
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { nativeImage } from "electron";
+import { blobSize, putImage, sha256 } from "./blobs";
+import { createSearchIndex, hasSearchIndex, rebuildSearchIndex } from "./searchIndex";
+
+type Database = import("better-sqlite3").Database;
+
+export type Migration = {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+  // VACUUM once the batch has committed (it cannot run inside a transaction)
+  vacuum?: boolean;
+};
+
+export type MigrationResult = { from: number; to: number; backupPath?: string };
+
+export class MigrationError extends Error {
+  constructor(
+    readonly migration: Pick<Migration, "version" | "name">,
+    readonly cause: unknown,
+    readonly backupPath?: string
+  ) {
+    super(`Migration ${migration.version} (${migration.name}) failed: ${(cause as any)?.message ?? cause}`);
+  }
+}
+
+// pre-migration copies kept in the backups folder
+const KEEP_BACKUPS = 5;
+
+// Databases from before schema_version existed can be in any earlier shape,
+// so the first migrations only add what is missing.
+function addColumn(db: Database, table: string, column: string, type: string) {
+  const cols = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!cols.some((c) => c.name === column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type};`);
+}
+
+// tags are indexed as plain words, not as the raw JSON array. Migration 3 keeps its own copy
+// of this: later index changes belong in searchIndex.ts plus a new migration.
+function tagsOf(row: string) {
+  return `(SELECT COALESCE(group_concat(value, ' '), '') FROM json_each(${row}.tagsJson))`;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "base tables",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS clips (
+          id TEXT PRIMARY KEY,
+          kind TEXT NOT NULL,
+          text TEXT,
+          imageDataUrl TEXT,
+          imageName TEXT,
+          createdAt INTEGER NOT NULL,
+          updatedAt INTEGER,
+          pinned INTEGER NOT NULL DEFAULT 0,
+          tagsJson TEXT NOT NULL DEFAULT '[]',
+          borderColor TEXT,
+          bgColor TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+
+      addColumn(db, "clips", "imageName", "TEXT");
+      addColumn(db, "clips", "updatedAt", "INTEGER");
+      addColumn(db, "clips", "borderColor", "TEXT");
+      addColumn(db, "clips", "bgColor", "TEXT");
+    },
+  },
+  {
+    version: 2,
+    name: "list order index",
+    up(db) {
+      db.exec("CREATE INDEX IF NOT EXISTS clips_order ON clips(pinned DESC, createdAt DESC, id DESC);");
+    },
+  },
+  {
+    version: 3,
+    name: "full-text search index",
+    up(db) {
+      // FTS5 table keyed by clips.rowid; triggers keep it in sync with every write to clips
+      db.exec(`
+        DROP TABLE IF EXISTS clips_fts;
+
+        CREATE VIRTUAL TABLE clips_fts USING fts5(
+          text,
+          imageName,
+          tags,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        DROP TRIGGER IF EXISTS clips_fts_ai;
+        CREATE TRIGGER clips_fts_ai AFTER INSERT ON clips BEGIN
+          INSERT INTO clips_fts(rowid, text, imageName, tags)
+          VALUES (new.rowid, COALESCE(new.text, ''), COALESCE(new.imageName, ''), ${tagsOf("new")});
+        END;
+
+        DROP TRIGGER IF EXISTS clips_fts_ad;
+        CREATE TRIGGER clips_fts_ad AFTER DELETE ON clips BEGIN
+          DELETE FROM clips_fts WHERE rowid = old.rowid;
+        END;
+
+        DROP TRIGGER IF EXISTS clips_fts_au;
+        CREATE TRIGGER clips_fts_au AFTER UPDATE OF text, imageName, tagsJson ON clips BEGIN
+          UPDATE clips_fts
+          SET text = COALESCE(new.text, ''), imageName = COALESCE(new.imageName, ''), tags = ${tagsOf("new")}
+          WHERE rowid = new.rowid;
+        END;
+
+        INSERT INTO clips_fts(rowid, text, imageName, tags)
+        SELECT rowid, COALESCE(text, ''), COALESCE(imageName, ''), ${tagsOf("clips")}
+        FROM clips;
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "image blobs",
+    // give back the space held by the base64 columns
+    vacuum: true,
+    up(db) {
+      addColumn(db, "clips", "imageHash", "TEXT");
+      db.exec("CREATE INDEX IF NOT EXISTS clips_imageHash ON clips(imageHash);");
+
+      // move legacy base64 imageDataUrl rows into the blob store
+      const rows = db
+        .prepare("SELECT id, imageDataUrl FROM clips WHERE kind='image' AND imageHash IS NULL AND imageDataUrl IS NOT NULL")
+        .all() as { id: string; imageDataUrl: string }[];
+
+      const update = db.prepare("UPDATE clips SET imageHash=?, imageDataUrl=NULL WHERE id=?");
+      for (const r of rows) {
+        const img = nativeImage.createFromDataURL(r.imageDataUrl);
+        if (img.isEmpty()) continue; // leave it; the list shows it as invalid
+        update.run(putImage(img.toPNG()), r.id);
+      }
+    },
+  },
+  {
+    version: 5,
+    name: "text dedupe",
+    up(db) {
+      addColumn(db, "clips", "textHash", "TEXT");
+      addColumn(db, "clips", "useCount", "INTEGER NOT NULL DEFAULT 1");
+      db.exec("CREATE INDEX IF NOT EXISTS clips_textHash ON clips(textHash);");
+
+      const rows = db.prepare("SELECT id, text FROM clips WHERE kind='text' AND textHash IS NULL").all() as {
+        id: string;
+        text: string | null;
+      }[];
+
+      const update = db.prepare("UPDATE clips SET textHash=? WHERE id=?");
+      for (const r of rows) update.run(sha256(Buffer.from(r.text ?? "", "utf8")), r.id);
+    },
+  },
+  {
+    version: 6,
+    name: "clip sizes",
+    up(db) {
+      addColumn(db, "clips", "sizeBytes", "INTEGER");
+
+      db.exec("UPDATE clips SET sizeBytes = length(CAST(COALESCE(text, '') AS BLOB)) WHERE kind='text' AND sizeBytes IS NULL");
+
+      const images = db
+        .prepare("SELECT id, imageHash FROM clips WHERE kind='image' AND sizeBytes IS NULL")
+        .all() as { id: string; imageHash: string | null }[];
+
+      const update = db.prepare("UPDATE clips SET sizeBytes=? WHERE id=?");
+      for (const r of images) update.run(r.imageHash ? blobSize(r.imageHash) : 0, r.id);
+    },
+  },
+  {
+    version: 7,
+    name: "sensitive clips",
+    up(db) {
+      db.exec(`
+        ALTER TABLE clips ADD COLUMN sensitiveJson TEXT;
+        ALTER TABLE clips ADD COLUMN expiresAt INTEGER;
+        CREATE INDEX clips_expiresAt ON clips(expiresAt) WHERE expiresAt IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: "rich text and file clips",
+    up(db) {
+      db.exec(`
+        ALTER TABLE clips ADD COLUMN html TEXT;
+        ALTER TABLE clips ADD COLUMN rtf TEXT;
+        ALTER TABLE clips ADD COLUMN filesJson TEXT;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: "snippets",
+    up(db) {
+      db.exec(`
+        CREATE TABLE snippets (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          body TEXT NOT NULL,
+          createdAt INTEGER NOT NULL,
+          updatedAt INTEGER,
+          useCount INTEGER NOT NULL DEFAULT 0
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: "collections",
+    up(db) {
+      // foreign keys are off in this DB, so a trigger drops the memberships of deleted clips
+      db.exec(`
+        CREATE TABLE collections (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          sortOrder INTEGER NOT NULL,
+          createdAt INTEGER NOT NULL
+        );
+
+        CREATE TABLE collection_clips (
+          collectionId TEXT NOT NULL,
+          clipId TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          addedAt INTEGER NOT NULL,
+          PRIMARY KEY (collectionId, clipId)
+        );
+        CREATE INDEX collection_clips_clip ON collection_clips(clipId);
+
+        CREATE TRIGGER clips_collections_ad AFTER DELETE ON clips BEGIN
+          DELETE FROM collection_clips WHERE clipId = old.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: "pinned order",
+    up(db) {
+      // higher sortOrder lists first, so the whole order stays descending and keyset paging keeps working;
+      // 0 for unpinned clips. Existing pins keep their newest-first order.
+      db.exec(`
+        ALTER TABLE clips ADD COLUMN sortOrder INTEGER NOT NULL DEFAULT 0;
+
+        UPDATE clips SET sortOrder = (
+          SELECT COUNT(*) FROM clips p WHERE p.pinned = 1 AND (p.createdAt, p.id) <= (clips.createdAt, clips.id)
+        ) WHERE pinned = 1;
+
+        DROP INDEX IF EXISTS clips_order;
+        CREATE INDEX clips_order ON clips(pinned DESC, sortOrder DESC, createdAt DESC, id DESC);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: "tag index",
+    up(db) {
+      // clip_tags comes with the search index; with the vault on there is none on disk,
+      // and unlocking builds both in memory. Also brings the index from migration 3 up to date.
+      if (hasSearchIndex(db, "main")) createSearchIndex(db, "main");
+    },
+  },
+  {
+    version: 13,
+    name: "content types",
+    up(db) {
+      // sealed like the text it describes. NULL = not classified yet: the main process fills those in
+      // once the text is readable (at startup, or on unlock with the vault on); "" = plain text
+      db.exec("ALTER TABLE clips ADD COLUMN contentType TEXT;");
+    },
+  },
+  {
+    version: 14,
+    name: "code language",
+    up(db) {
+      // language is sealed like contentType; languageManual = 1 when the user picked it.
+      // Clearing contentType has every text clip classified again, which fills in the language
+      // (and picks up shell commands as code)
+      db.exec(`
+        ALTER TABLE clips ADD COLUMN language TEXT;
+        ALTER TABLE clips ADD COLUMN languageManual INTEGER NOT NULL DEFAULT 0;
+
+        UPDATE clips SET contentType = NULL WHERE kind IN ('text', 'rich');
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: "trash",
+    up(db) {
+      // deleted from the popup = deletedAt set; the row goes for good when the trash is purged
+      db.exec(`
+        ALTER TABLE clips ADD COLUMN deletedAt INTEGER;
+        CREATE INDEX clips_deletedAt ON clips(deletedAt) WHERE deletedAt IS NOT NULL;
+      `);
+    },
+  },
+];
+
+export function schemaVersion(db: Database): number {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt INTEGER NOT NULL
+    );
+  `);
+  const row = db.prepare("SELECT MAX(version) AS v FROM schema_version").get() as { v: number | null };
+  return row.v ?? 0;
+}
+
+// a brand-new file has nothing worth copying
+function hasUserTables(db: Database) {
+  return !!db
+    .prepare("SELECT 1 FROM sqlite_master WHERE type='table' AND name NOT IN ('schema_version') LIMIT 1")
+    .get();
+}
+
+function backupFile(dbFile: string, backupDir: string, from: number) {
+  fs.mkdirSync(backupDir, { recursive: true });
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const dest = path.join(backupDir, `${path.basename(dbFile, ".sqlite")}-v${from}-${stamp}.sqlite`);
+  fs.copyFileSync(dbFile, dest);
+
+  // oldest first by name (the stamp sorts chronologically)
+  const old = fs
+    .readdirSync(backupDir)
+    .filter((n) => n.endsWith(".sqlite"))
+    .sort()
+    .slice(0, -KEEP_BACKUPS);
+  for (const n of old) {
+    try {
+      fs.unlinkSync(path.join(backupDir, n));
+    } catch {
+      // ignore
+    }
+  }
+
+  return dest;
+}
+
+// Throws MigrationError when a migration fails (the batch is rolled back),
+// or a plain Error when the DB was written by a newer app version.
+export function runMigrations(
+  db: Database,
+  opts: { dbFile: string; backupDir: string; migrations?: Migration[] }
+): MigrationResult {
+  const migrations = opts.migrations ?? MIGRATIONS;
+  const latest = migrations[migrations.length - 1]?.version ?? 0;
+
+  const from = schemaVersion(db);
+  if (from > latest) {
+    throw new Error(`The database is at schema version ${from}, but this version of ClipVault only knows up to ${latest}.`);
+  }
+
+  const pending = migrations.filter((m) => m.version > from);
+  if (!pending.length) return { from, to: from };
+
+  const backupPath = hasUserTables(db) ? backupFile(opts.dbFile, opts.backupDir, from) : undefined;
+
+  const record = db.prepare("INSERT INTO schema_version(version, name, appliedAt) VALUES (?, ?, ?)");
+  let current: Migration | undefined;
+
+  try {
+    db.transaction(() => {
+      for (const m of pending) {
+        current = m;
+        m.up(db);
+        record.run(m.version, m.name, Date.now());
+      }
+    })();
+  } catch (err) {
+    throw new MigrationError(current ?? pending[0], err, backupPath);
+  }
+
+  if (pending.some((m) => m.vacuum)) {
+    try {
+      db.exec("VACUUM");
+      rebuildSearchIndex(db);
+    } catch {
+      // only reclaims space; the data is already migrated
+    }
+  }
+
+  return { from, to: pending[pending.length - 1].version, backupPath };
+}
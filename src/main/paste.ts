@@ -0,0 +1,148 @@
+// ============================
+// FILE: src/main/paste.ts
+// Synthesized paste keystroke for "Enter pastes"
+// ============================
+//
+// Electron can't send keystrokes to other apps, so each platform shells out to a tool:
+//
+//   darwin  osascript (System Events); needs Accessibility permission for ClipVault
+//   win32   PowerShell + WScript.Shell SendKeys
+//   linux   xdotool on X11, ydotool on Wayland (needs the ydotoold daemon running)
+//
+// The caller hides the popup first, so the keystroke lands in the previously focused app.
+
+import { execFile } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+export interface PasteInjector {
+  readonly name: string;
+  // why paste() can't work here, or "" when it should
+  unavailableReason(): string;
+  // cursorBack: Left presses after the paste, for snippets with a {{cursor}} mark
+  paste(cursorBack?: number): Promise<void>;
+}
+
+// a stuck tool must not hold the paste forever
+const RUN_TIMEOUT_MS = 3000;
+
+function run(cmd: string, args: string[]) {
+  return new Promise<void>((resolve, reject) => {
+    execFile(cmd, args, { timeout: RUN_TIMEOUT_MS, windowsHide: true }, (err, _stdout, stderr) => {
+      if (err) reject(new Error(`${cmd} failed: ${String(stderr || err.message).trim()}`));
+      else resolve();
+    });
+  });
+}
+
+// Windows appends each PATHEXT extension; a command that already has one is tried as is first
+export function onPath(
+  cmd: string,
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform
+) {
+  const pathExts = (env.PATHEXT ?? ".EXE").split(";").filter(Boolean);
+  const exts = platform !== "win32" ? [""] : path.extname(cmd) ? ["", ...pathExts] : pathExts;
+  for (const dir of (env.PATH ?? "").split(path.delimiter)) {
+    if (!dir) continue;
+    for (const ext of exts) {
+      try {
+        fs.accessSync(path.join(dir, cmd + ext), fs.constants.X_OK);
+        return true;
+      } catch {
+        // keep looking
+      }
+    }
+  }
+  return false;
+}
+
+function commandInjector(
+  name: string,
+  cmd: string,
+  args: (cursorBack: number) => string[],
+  missing: string
+): PasteInjector {
+  return {
+    name,
+    unavailableReason: () => (onPath(cmd) ? "" : missing),
+    paste: (cursorBack = 0) => run(cmd, args(Math.max(0, Math.floor(cursorBack)))),
+  };
+}
+
+// key code 123 = Left
+export const macInjector = () =>
+  commandInjector(
+    "osascript",
+    "osascript",
+    (back) => [
+      "-e",
+      'tell application "System Events"',
+      "-e",
+      'keystroke "v" using command down',
+      ...(back ? ["-e", `repeat ${back} times`, "-e", "key code 123", "-e", "end repeat"] : []),
+      "-e",
+      "end tell",
+    ],
+    "osascript not found"
+  );
+
+export const windowsInjector = () =>
+  commandInjector(
+    "powershell",
+    "powershell.exe",
+    (back) => [
+      "-NoProfile",
+      "-NonInteractive",
+      "-Command",
+      `(New-Object -ComObject WScript.Shell).SendKeys('^v${back ? `{LEFT ${back}}` : ""}')`,
+    ],
+    "PowerShell not found"
+  );
+
+export const xdotoolInjector = () =>
+  commandInjector(
+    "xdotool",
+    "xdotool",
+    (back) => ["key", "--clearmodifiers", "ctrl+v", ...(back ? ["key", "--repeat", String(back), "Left"] : [])],
+    "Install xdotool to paste on X11"
+  );
+
+// raw evdev key codes: 29 = left Ctrl, 47 = V, 105 = Left
+export const ydotoolInjector = () =>
+  commandInjector(
+    "ydotool",
+    "ydotool",
+    (back) => ["key", "29:1", "47:1", "47:0", "29:0", ...Array(back).fill(["105:1", "105:0"]).flat()],
+    "Install ydotool to paste on Wayland"
+  );
+
+// for tests and unsupported platforms: records the request and does nothing
+export function noopInjector(reason = ""): PasteInjector & { calls: number[] } {
+  return {
+    name: "none",
+    // cursorBack of each paste() call
+    calls: [],
+    unavailableReason: () => reason,
+    async paste(cursorBack = 0) {
+      this.calls.push(cursorBack);
+    },
+  };
+}
+
+export function createPasteInjector(
+  platform: NodeJS.Platform = process.platform,
+  env: NodeJS.ProcessEnv = process.env
+): PasteInjector {
+  // lets end-to-end runs exercise "Enter pastes" without typing into the desktop
+  if (env.CLIPVAULT_PASTE === "none") return noopInjector();
+  if (platform === "darwin") return macInjector();
+  if (platform === "win32") return windowsInjector();
+  if (platform === "linux") {
+    const wayland = env.XDG_SESSION_TYPE === "wayland" || !!env.WAYLAND_DISPLAY;
+    // XWayland apps still take xdotool input, so it is the fallback on Wayland too
+    if (wayland && (onPath("ydotool", env) || !onPath("xdotool", env))) return ydotoolInjector();
+    return xdotoolInjector();
+  }
+  return noopInjector(`Pasting is not supported on ${platform}`);
+}
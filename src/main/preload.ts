@@ -4,17 +4,44 @@
 
 import { contextBridge, ipcRenderer } from "electron";
 
-type ClipKind = "text" | "image";
+type ClipKind = "text" | "image" | "rich" | "files";
 type Lang = "en" | "km";
+type DedupeMode = "off" | "consecutive" | "history";
+type RetentionPolicy = { maxItems: number; maxAgeDays: number; maxStorageMb: number; trashDays: number };
+type SensitivePolicy = {
+  enabled: boolean;
+  action: "drop" | "mask" | "expire";
+  expireMinutes: number;
+  detectors: string[];
+  patterns: string[];
+};
+
+type ExclusionRule = {
+  id: string;
+  kind: "regex" | "minLength" | "maxLength" | "whitespace" | "number";
+  enabled: boolean;
+  pattern?: string;
+  ignoreCase?: boolean;
+  length?: number;
+};
 
+type ColorLabel = { color: string; name: string };
 type Theme = Record<string, any>;
+type VaultStatus = { enabled: boolean; locked: boolean };
 
 type Settings = {
   popupShortcut: string;
   closeOnCopy: boolean;
   closeOnCopyDelayMs: number;
   closeOnBlur: boolean;
+  enterPastes: boolean;
   startAtLogin: boolean;
+  dedupeMode: DedupeMode;
+  retention: RetentionPolicy;
+  sensitive: SensitivePolicy;
+  exclusions: ExclusionRule[];
+  vaultAutoLockMinutes: number;
+  colorLabels: ColorLabel[];
   lang: Lang;
   theme: Partial<Theme>;
 };
@@ -35,6 +62,11 @@ contextBridge.exposeInMainWorld("clipvault", {
   showPopup: () => ipcRenderer.invoke("showPopup"),
   hidePopup: () => ipcRenderer.invoke("hidePopup"),
   minimizePopup: () => ipcRenderer.invoke("minimizePopup"),
+  openUrl: (url: string) => ipcRenderer.invoke("openUrl", url),
+
+  // paste into the previously focused app
+  getPasteSupport: () => ipcRenderer.invoke("getPasteSupport"),
+  pasteIntoPreviousApp: (cursorBack?: number) => ipcRenderer.invoke("pasteIntoPreviousApp", cursorBack),
 
   // interaction locks
   setInteractionState: (partial: Partial<InteractionState>) =>
@@ -50,21 +82,89 @@ contextBridge.exposeInMainWorld("clipvault", {
   setStartAtLogin: (openAtLogin: boolean) => ipcRenderer.invoke("setStartAtLogin", openAtLogin),
 
   // history
-  getHistory: (query: string) => ipcRenderer.invoke("getHistory", query),
+  getHistory: (query: string, page?: { cursor?: string; limit?: number; collectionId?: string; trash?: boolean }) =>
+    ipcRenderer.invoke("getHistory", query, page),
+
+  // tag manager (names compare case-insensitively)
+  listTags: () => ipcRenderer.invoke("listTags"),
+  renameTag: (from: string, to: string) => ipcRenderer.invoke("renameTag", from, to),
+  mergeTags: (names: string[], into: string) => ipcRenderer.invoke("mergeTags", names, into),
+  deleteTag: (name: string) => ipcRenderer.invoke("deleteTag", name),
+
+  // collections
+  listCollections: () => ipcRenderer.invoke("listCollections"),
+  createCollection: (name: string) => ipcRenderer.invoke("createCollection", name),
+  renameCollection: (id: string, name: string) => ipcRenderer.invoke("renameCollection", id, name),
+  deleteCollection: (id: string) => ipcRenderer.invoke("deleteCollection", id),
+  addToCollection: (collectionId: string, clipIds: string[]) =>
+    ipcRenderer.invoke("addToCollection", collectionId, clipIds),
+  removeFromCollection: (collectionId: string, clipIds: string[]) =>
+    ipcRenderer.invoke("removeFromCollection", collectionId, clipIds),
+  moveInCollection: (collectionId: string, clipId: string, overId: string) =>
+    ipcRenderer.invoke("moveInCollection", collectionId, clipId, overId),
 
   // clipboard write (copy from app -> system clipboard)
-  setClipboard: (payload: { kind: ClipKind; text?: string; imageDataUrl?: string }) =>
+  setClipboard: (payload: { kind: ClipKind; text?: string; clipId?: string; imageDataUrl?: string }) =>
     ipcRenderer.invoke("setClipboard", payload),
 
+  // storage / retention
+  getStorageInfo: (policy?: Partial<RetentionPolicy>) => ipcRenderer.invoke("getStorageInfo", policy),
+  pruneNow: () => ipcRenderer.invoke("pruneNow"),
+
+  // snippets
+  listSnippets: () => ipcRenderer.invoke("listSnippets"),
+  searchSnippets: (query: string) => ipcRenderer.invoke("searchSnippets", query),
+  saveSnippet: (input: { id?: string; name: string; body: string }) => ipcRenderer.invoke("saveSnippet", input),
+  deleteSnippet: (id: string) => ipcRenderer.invoke("deleteSnippet", id),
+  useSnippet: (id: string, inputs: Record<string, string>) => ipcRenderer.invoke("useSnippet", id, inputs),
+
+  // exclusion rules
+  testExclusions: (rules: ExclusionRule[]) => ipcRenderer.invoke("testExclusions", rules),
+  excludeLikeClip: (id: string) => ipcRenderer.invoke("excludeLikeClip", id),
+
+  // backup
+  // ids: export only these clips
+  exportBackup: (ids?: string[]) => ipcRenderer.invoke("exportBackup", ids),
+  importBackup: (mode: "merge" | "replace") => ipcRenderer.invoke("importBackup", mode),
+
+  // vault (encryption at rest)
+  getVaultStatus: (): Promise<VaultStatus> => ipcRenderer.invoke("getVaultStatus"),
+  unlockVault: (passphrase: string) => ipcRenderer.invoke("unlockVault", passphrase),
+  lockVault: () => ipcRenderer.invoke("lockVault"),
+  enableVault: (passphrase: string) => ipcRenderer.invoke("enableVault", passphrase),
+  disableVault: (passphrase: string) => ipcRenderer.invoke("disableVault", passphrase),
+
   // CRUD
+  // both move clips to the trash and return their ids for Undo
   deleteClip: (id: string) => ipcRenderer.invoke("deleteClip", id),
-  clearAll: () => ipcRenderer.invoke("clearAll"),
+  clearAll: (opts: { keepPinned: boolean }) => ipcRenderer.invoke("clearAll", opts),
   togglePin: (id: string) => ipcRenderer.invoke("togglePin", id),
+  movePinned: (clipId: string, overId: string) => ipcRenderer.invoke("movePinned", clipId, overId),
+
+  // trash
+  restoreClips: (ids: string[]) => ipcRenderer.invoke("restoreClips", ids),
+  purgeClips: (ids: string[]) => ipcRenderer.invoke("purgeClips", ids),
+  emptyTrash: () => ipcRenderer.invoke("emptyTrash"),
+  trashCount: (): Promise<number> => ipcRenderer.invoke("trashCount"),
+
+  // batch actions (multi-select)
+  deleteClips: (ids: string[]) => ipcRenderer.invoke("deleteClips", ids),
+  setClipsPinned: (ids: string[], pinned: boolean) => ipcRenderer.invoke("setClipsPinned", ids, pinned),
+  updateClipsTags: (ids: string[], change: { add?: string[]; remove?: string[] }) =>
+    ipcRenderer.invoke("updateClipsTags", ids, change),
+  mergeClips: (ids: string[], opts: { separator: string; order: "selection" | "oldest" | "newest"; deleteSources: boolean }) =>
+    ipcRenderer.invoke("mergeClips", ids, opts),
 
   // IMPORTANT: match main signatures (separate args, not object)
   setTags: (id: string, tags: string[]) => ipcRenderer.invoke("setTags", id, tags),
   updateClipText: (id: string, text: string) => ipcRenderer.invoke("updateClipText", id, text),
   renameClip: (id: string, name: string) => ipcRenderer.invoke("renameClip", id, name),
+  // undefined keeps a color, null clears it
+  setClipColors: (id: string, colors: { borderColor?: string | null; bgColor?: string | null }) =>
+    ipcRenderer.invoke("setClipColors", id, colors),
+  // null goes back to the detected language, "" shows plain text
+  setClipLanguage: (id: string, language: string | null) => ipcRenderer.invoke("setClipLanguage", id, language),
+  addTextClip: (text: string) => ipcRenderer.invoke("addTextClip", text),
 
   // events (must match main)
   onPopupOpened: (cb: () => void) => {
@@ -85,6 +185,12 @@ contextBridge.exposeInMainWorld("clipvault", {
     ipcRenderer.on("historyUpdated", handler);
     return () => ipcRenderer.removeListener("historyUpdated", handler);
   },
+
+  onVaultUpdated: (cb: (s: VaultStatus) => void) => {
+    const handler = (_: any, s: VaultStatus) => cb(s);
+    ipcRenderer.on("vaultUpdated", handler);
+    return () => ipcRenderer.removeListener("vaultUpdated", handler);
+  },
 });
 
 // Optional: TypeScript typing helper (safe even if you omit)
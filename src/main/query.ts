@@ -0,0 +1,301 @@
+// ============================
+// FILE: src/main/query.ts
+// Search box query language -> SQL
+// ============================
+//
+//   hello wor          words (prefix match, all must hit)
+//   "exact phrase"     phrase match
+//   /re(gex)?/i        JS regex over text / image name
+//   tag:foo            has tag (case-insensitive)
+//   kind:text|image    clip kind (text, image, rich, files)
+//   is:pinned          pinned only (pinned:yes|no also works)
+//   color:prod         has that color label, by name or hex (color:#ff5a5a), as border or background
+//   type:url|json      detected content type (see contentType.ts)
+//   after:2026-01-01   created on/after a date or relative age (30m, 12h, 7d, 2w)
+//   before:7d          created before a date or relative age
+//
+// Any term can be negated with a leading "-", e.g. -tag:bar -"foo bar".
+
+import { ColorLabel, resolveLabel } from "./labels";
+import { CONTENT_TYPES } from "./contentType";
+
+export type SearchTerm =
+  | { type: "word"; value: string; negate: boolean }
+  | { type: "phrase"; value: string; negate: boolean }
+  | { type: "regex"; source: string; flags: string; negate: boolean }
+  | { type: "tag"; value: string; negate: boolean }
+  | { type: "kind"; kinds: string[]; negate: boolean }
+  | { type: "pinned"; pinned: boolean; negate: boolean }
+  // lowercase #rrggbb
+  | { type: "color"; color: string; negate: boolean }
+  | { type: "contentType"; types: string[]; negate: boolean }
+  | { type: "after" | "before"; ts: number; negate: boolean };
+
+export type ParsedQuery = { terms: SearchTerm[] };
+
+export type ParseResult = { ok: true; query: ParsedQuery } | { ok: false; reason: string };
+
+export type SqlFilter = {
+  // FTS5 MATCH expression for the positive text terms, if any
+  match?: string;
+  // extra conditions over the clips table, aliased as "c"
+  where: string[];
+  params: unknown[];
+};
+
+const KINDS = ["text", "image", "rich", "files"];
+const KEYS = ["tag", "kind", "is", "pinned", "color", "type", "after", "before"];
+
+const REL_UNITS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 7 * 86_400_000,
+};
+
+function parseDate(raw: string, now: number): number | null {
+  const v = raw.toLowerCase();
+
+  if (v === "today" || v === "yesterday") {
+    const d = new Date(now);
+    d.setHours(0, 0, 0, 0);
+    if (v === "yesterday") d.setDate(d.getDate() - 1);
+    return d.getTime();
+  }
+
+  const rel = /^(\d+)(m|h|d|w)$/.exec(v);
+  if (rel) return now - Number(rel[1]) * REL_UNITS[rel[2]];
+
+  // YYYY-MM-DD is local midnight (Date() would read it as UTC)
+  const ymd = /^(\d{4})-(\d{2})-(\d{2})$/.exec(v);
+  if (ymd) {
+    const d = new Date(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3]));
+    return d.getMonth() === Number(ymd[2]) - 1 ? d.getTime() : null;
+  }
+
+  const ts = Date.parse(raw);
+  return Number.isNaN(ts) ? null : ts;
+}
+
+type Token = { raw: string; regex?: { source: string; flags: string } };
+
+// splits on whitespace, keeping "quoted phrases" and /regex/flags as single tokens
+function tokenize(input: string): { ok: true; tokens: Token[] } | { ok: false; reason: string } {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    if (input[i] === "-") i++;
+
+    // /regex/flags — anything else starting with "/" (e.g. /usr/bin) is a plain word
+    if (input[i] === "/") {
+      let j = i + 1;
+      while (j < input.length && input[j] !== "/") j += input[j] === "\\" ? 2 : 1;
+      const flags = j < input.length ? /^[imsu]*/.exec(input.slice(j + 1))![0] : "";
+      const after = j + 1 + flags.length;
+      if (j < input.length && (after >= input.length || /\s/.test(input[after]))) {
+        tokens.push({ raw: input.slice(start, after), regex: { source: input.slice(i + 1, j), flags } });
+        i = after;
+        continue;
+      }
+    }
+
+    // key:"quoted value"
+    const key = /^([a-z]+):"/i.exec(input.slice(i));
+    if (key && KEYS.includes(key[1].toLowerCase())) i += key[1].length + 1;
+
+    if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end < 0) return { ok: false, reason: "Unclosed quote" };
+      i = end + 1;
+    } else {
+      while (i < input.length && !/\s/.test(input[i])) i++;
+    }
+
+    tokens.push({ raw: input.slice(start, i) });
+  }
+
+  return { ok: true, tokens };
+}
+
+function unquote(v: string) {
+  return v.length >= 2 && v.startsWith('"') && v.endsWith('"') ? v.slice(1, -1) : v;
+}
+
+// labels: the palette that color:<name> looks names up in
+export function parseSearchQuery(input: string, now = Date.now(), labels: ColorLabel[] = []): ParseResult {
+  const tk = tokenize(input ?? "");
+  if (!tk.ok) return tk;
+
+  const terms: SearchTerm[] = [];
+
+  for (const { raw, regex } of tk.tokens) {
+    const negate = raw.length > 1 && raw.startsWith("-");
+    const tok = negate ? raw.slice(1) : raw;
+
+    if (regex) {
+      const { source, flags } = regex;
+      try {
+        new RegExp(source, flags);
+      } catch (err: any) {
+        return { ok: false, reason: `Invalid regex: ${err?.message ?? tok}` };
+      }
+      terms.push({ type: "regex", source, flags, negate });
+      continue;
+    }
+
+    if (tok.startsWith('"')) {
+      const value = unquote(tok).trim();
+      if (value) terms.push({ type: "phrase", value, negate });
+      continue;
+    }
+
+    const op = /^([a-z]+):(.*)$/is.exec(tok);
+    const key = op?.[1].toLowerCase();
+    if (!op || !key || !KEYS.includes(key)) {
+      // pure punctuation tokenizes to nothing in FTS and would match no rows
+      if (/[\p{L}\p{N}]/u.test(tok)) terms.push({ type: "word", value: tok, negate });
+      continue;
+    }
+
+    const value = unquote(op[2]).trim();
+    if (!value) return { ok: false, reason: `Missing value for ${key}:` };
+
+    switch (key) {
+      case "tag":
+        terms.push({ type: "tag", value: value.toLowerCase(), negate });
+        break;
+
+      case "kind": {
+        const kinds = value.toLowerCase().split("|").filter(Boolean);
+        const bad = kinds.find((k) => !KINDS.includes(k));
+        if (bad) return { ok: false, reason: `Unknown kind "${bad}" (use ${KINDS.join(", ")})` };
+        terms.push({ type: "kind", kinds, negate });
+        break;
+      }
+
+      case "type": {
+        const types = value.toLowerCase().split("|").filter(Boolean);
+        const bad = types.find((x) => !(CONTENT_TYPES as string[]).includes(x));
+        if (bad) return { ok: false, reason: `Unknown type "${bad}" (use ${CONTENT_TYPES.join(", ")})` };
+        terms.push({ type: "contentType", types, negate });
+        break;
+      }
+
+      case "is":
+        if (value.toLowerCase() !== "pinned") return { ok: false, reason: `Unknown is:${value} (use is:pinned)` };
+        terms.push({ type: "pinned", pinned: true, negate });
+        break;
+
+      case "pinned": {
+        const v = value.toLowerCase();
+        if (!["yes", "no", "true", "false"].includes(v)) {
+          return { ok: false, reason: `Use pinned:yes or pinned:no` };
+        }
+        terms.push({ type: "pinned", pinned: v === "yes" || v === "true", negate });
+        break;
+      }
+
+      case "color": {
+        const color = resolveLabel(value, labels);
+        if (!color) return { ok: false, reason: `Unknown color label "${value}"` };
+        terms.push({ type: "color", color, negate });
+        break;
+      }
+
+      case "after":
+      case "before": {
+        const ts = parseDate(value, now);
+        if (ts === null) return { ok: false, reason: `Invalid date "${value}" (use YYYY-MM-DD or 7d, 12h, 2w)` };
+        terms.push({ type: key, ts, negate });
+        break;
+      }
+    }
+  }
+
+  return { ok: true, query: { terms } };
+}
+
+function ftsWord(w: string) {
+  return `"${w.replace(/"/g, '""')}"*`;
+}
+
+function ftsPhrase(p: string) {
+  return `"${p.replace(/"/g, '""')}"`;
+}
+
+// Text terms go through FTS; negated ones become NOT IN sub-queries because FTS5 NOT needs a positive side.
+// Regex terms rely on the cv_regexp(source, flags, value) SQL function registered by the main process,
+// and columns that may be sealed by the vault are read through its cv_open(value).
+export function queryToSql(q: ParsedQuery): SqlFilter {
+  const match: string[] = [];
+  const where: string[] = [];
+  const params: unknown[] = [];
+
+  for (const term of q.terms) {
+    const not = term.negate ? "NOT " : "";
+
+    switch (term.type) {
+      case "word":
+      case "phrase": {
+        const expr = term.type === "word" ? ftsWord(term.value) : ftsPhrase(term.value);
+        if (!term.negate) {
+          match.push(expr);
+        } else {
+          where.push("c.rowid NOT IN (SELECT rowid FROM clips_fts WHERE clips_fts MATCH ?)");
+          params.push(expr);
+        }
+        break;
+      }
+
+      case "regex":
+        where.push(`${not}cv_regexp(?, ?, COALESCE(cv_open(c.text), cv_open(c.imageName), ''))`);
+        params.push(term.source, term.flags);
+        break;
+
+      case "tag":
+        // clip_tags.tag compares case-insensitively (see searchIndex.ts)
+        where.push(`${not}EXISTS (SELECT 1 FROM clip_tags t WHERE t.clipId = c.id AND t.tag = ?)`);
+        params.push(term.value);
+        break;
+
+      case "kind":
+        where.push(`c.kind ${not}IN (${term.kinds.map(() => "?").join(", ")})`);
+        params.push(...term.kinds);
+        break;
+
+      case "pinned":
+        where.push("c.pinned = ?");
+        params.push(term.pinned !== term.negate ? 1 : 0);
+        break;
+
+      case "color":
+        where.push(`${not}(lower(COALESCE(c.borderColor, '')) = ? OR lower(COALESCE(c.bgColor, '')) = ?)`);
+        params.push(term.color, term.color);
+        break;
+
+      case "contentType":
+        where.push(`COALESCE(cv_open(c.contentType), '') ${not}IN (${term.types.map(() => "?").join(", ")})`);
+        params.push(...term.types);
+        break;
+
+      case "after":
+        where.push(term.negate ? "c.createdAt < ?" : "c.createdAt >= ?");
+        params.push(term.ts);
+        break;
+
+      case "before":
+        where.push(term.negate ? "c.createdAt >= ?" : "c.createdAt < ?");
+        params.push(term.ts);
+        break;
+    }
+  }
+
+  return { match: match.length ? match.join(" ") : undefined, where, params };
+}
@@ -0,0 +1,106 @@
+// ============================
+// FILE: src/main/retention.ts
+// Which clips a retention policy would remove
+// ============================
+
+export type RetentionPolicy = {
+  // 0 = no limit for each of these
+  maxItems: number;
+  maxAgeDays: number;
+  maxStorageMb: number;
+  // deleted clips stay in the trash this long (0 = until it is emptied)
+  trashDays: number;
+};
+
+export type RetentionRow = {
+  id: string;
+  createdAt: number;
+  sizeBytes: number;
+  pinned: number;
+  tagsJson: string;
+};
+
+export type PrunePlan = {
+  ids: string[];
+  bytes: number;
+  byReason: { age: number; count: number; size: number };
+};
+
+export const DEFAULT_RETENTION: RetentionPolicy = { maxItems: 0, maxAgeDays: 0, maxStorageMb: 0, trashDays: 30 };
+
+// clips tagged with this are never pruned, same as pinned ones
+export const KEEP_TAG = "keep";
+
+const DAY_MS = 86_400_000;
+
+export function normalizePolicy(p: Partial<RetentionPolicy> | undefined): RetentionPolicy {
+  const n = (v: unknown) => Math.max(0, Math.floor(Number(v) || 0));
+  return {
+    maxItems: n(p?.maxItems),
+    maxAgeDays: n(p?.maxAgeDays),
+    maxStorageMb: n(p?.maxStorageMb),
+    // settings saved before the trash existed have none
+    trashDays: p?.trashDays === undefined ? DEFAULT_RETENTION.trashDays : n(p.trashDays),
+  };
+}
+
+// clips deleted before this are purged from the trash; null = nothing is
+export function trashCutoff(policy: RetentionPolicy, now = Date.now()): number | null {
+  return policy.trashDays > 0 ? now - policy.trashDays * DAY_MS : null;
+}
+
+export function isExempt(r: Pick<RetentionRow, "pinned" | "tagsJson">) {
+  if (r.pinned) return true;
+  try {
+    const tags = JSON.parse(r.tagsJson || "[]");
+    return Array.isArray(tags) && tags.some((t) => String(t).trim().toLowerCase() === KEEP_TAG);
+  } catch {
+    return false;
+  }
+}
+
+// rows must be ordered newest first. Exempt rows count toward the limits but are never picked,
+// so a history made only of pinned clips can stay above them.
+export function planPrune(rows: RetentionRow[], policy: RetentionPolicy, now = Date.now()): PrunePlan {
+  const plan: PrunePlan = { ids: [], bytes: 0, byReason: { age: 0, count: 0, size: 0 } };
+  const removed = new Set<string>();
+
+  let count = rows.length;
+  let bytes = rows.reduce((sum, r) => sum + (r.sizeBytes || 0), 0);
+
+  const remove = (r: RetentionRow, reason: keyof PrunePlan["byReason"]) => {
+    removed.add(r.id);
+    plan.ids.push(r.id);
+    plan.bytes += r.sizeBytes || 0;
+    plan.byReason[reason]++;
+    count--;
+    bytes -= r.sizeBytes || 0;
+  };
+
+  const candidates = rows.filter((r) => !isExempt(r));
+
+  if (policy.maxAgeDays > 0) {
+    const cutoff = now - policy.maxAgeDays * DAY_MS;
+    for (const r of candidates) if (r.createdAt < cutoff) remove(r, "age");
+  }
+
+  // oldest first from here on
+  const oldest = candidates.filter((r) => !removed.has(r.id)).reverse();
+
+  if (policy.maxItems > 0) {
+    for (const r of oldest) {
+      if (count <= policy.maxItems) break;
+      remove(r, "count");
+    }
+  }
+
+  if (policy.maxStorageMb > 0) {
+    const maxBytes = policy.maxStorageMb * 1024 * 1024;
+    for (const r of oldest) {
+      if (bytes <= maxBytes) break;
+      if (!removed.has(r.id)) remove(r, "size");
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,138 @@
+// ============================
+// FILE: src/main/searchIndex.ts
+// FTS5 index over clip text, image names and tags, plus the per-tag index
+// ============================
+//
+// The index is a clips_fts table keyed by clips.rowid, kept in sync by triggers.
+// Next to it, clip_tags holds one row per (clip, tag) for the tag manager and tag: terms;
+// clips.tagsJson stays the source of truth.
+//
+//   main  normal mode: lives in clipvault.sqlite next to the clips
+//   temp  vault mode: an in-memory copy built on unlock and dropped on lock, so no
+//         plaintext reaches the disk. Its triggers read the sealed columns through
+//         the cv_open() SQL function the main process registers.
+//
+// Queries just say "clips_fts" / "clip_tags": SQLite looks in temp before main.
+
+type Database = import("better-sqlite3").Database;
+
+export type IndexSchema = "main" | "temp";
+
+function col(schema: IndexSchema, row: string, name: string) {
+  return schema === "temp" ? `cv_open(${row}.${name})` : `${row}.${name}`;
+}
+
+// tags are indexed as plain words, not as the raw JSON array
+function tagsOf(schema: IndexSchema, row: string) {
+  return `(SELECT COALESCE(group_concat(value, ' '), '') FROM json_each(${col(schema, row, "tagsJson")}))`;
+}
+
+export function createSearchIndex(db: Database, schema: IndexSchema) {
+  // temp triggers may not be schema-qualified
+  const trigger = (n: string) => (schema === "temp" ? `TEMP TRIGGER ${n}` : `TRIGGER main.${n}`);
+  const text = (row: string) => `COALESCE(${col(schema, row, "text")}, '')`;
+  const name = (row: string) => `COALESCE(${col(schema, row, "imageName")}, '')`;
+
+  db.exec(`
+    DROP TABLE IF EXISTS ${schema}.clips_fts;
+
+    CREATE VIRTUAL TABLE ${schema}.clips_fts USING fts5(
+      text,
+      imageName,
+      tags,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+
+    DROP TRIGGER IF EXISTS ${schema}.clips_fts_ai;
+    CREATE ${trigger("clips_fts_ai")} AFTER INSERT ON main.clips BEGIN
+      INSERT INTO clips_fts(rowid, text, imageName, tags)
+      VALUES (new.rowid, ${text("new")}, ${name("new")}, ${tagsOf(schema, "new")});
+    END;
+
+    DROP TRIGGER IF EXISTS ${schema}.clips_fts_ad;
+    CREATE ${trigger("clips_fts_ad")} AFTER DELETE ON main.clips BEGIN
+      DELETE FROM clips_fts WHERE rowid = old.rowid;
+    END;
+
+    DROP TRIGGER IF EXISTS ${schema}.clips_fts_au;
+    CREATE ${trigger("clips_fts_au")} AFTER UPDATE OF text, imageName, tagsJson ON main.clips BEGIN
+      UPDATE clips_fts
+      SET text = ${text("new")}, imageName = ${name("new")}, tags = ${tagsOf(schema, "new")}
+      WHERE rowid = new.rowid;
+    END;
+  `);
+
+  createTagIndex(db, schema);
+  rebuildSearchIndex(db, schema);
+}
+
+function createTagIndex(db: Database, schema: IndexSchema) {
+  const trigger = (n: string) => (schema === "temp" ? `TEMP TRIGGER ${n}` : `TRIGGER main.${n}`);
+  // blank and repeated tags are skipped; tag names compare case-insensitively
+  const insert = (row: string) => `
+    INSERT OR IGNORE INTO clip_tags(clipId, tag)
+    SELECT ${row}.id, trim(value) FROM json_each(${col(schema, row, "tagsJson")}) WHERE trim(value) <> '';`;
+
+  db.exec(`
+    DROP TABLE IF EXISTS ${schema}.clip_tags;
+
+    CREATE TABLE ${schema}.clip_tags (
+      clipId TEXT NOT NULL,
+      tag TEXT NOT NULL COLLATE NOCASE,
+      PRIMARY KEY (clipId, tag)
+    );
+    CREATE INDEX ${schema}.clip_tags_tag ON clip_tags(tag);
+
+    DROP TRIGGER IF EXISTS ${schema}.clip_tags_ai;
+    CREATE ${trigger("clip_tags_ai")} AFTER INSERT ON main.clips BEGIN
+      ${insert("new")}
+    END;
+
+    DROP TRIGGER IF EXISTS ${schema}.clip_tags_ad;
+    CREATE ${trigger("clip_tags_ad")} AFTER DELETE ON main.clips BEGIN
+      DELETE FROM clip_tags WHERE clipId = old.id;
+    END;
+
+    DROP TRIGGER IF EXISTS ${schema}.clip_tags_au;
+    CREATE ${trigger("clip_tags_au")} AFTER UPDATE OF id, tagsJson ON main.clips BEGIN
+      DELETE FROM clip_tags WHERE clipId = old.id;
+      ${insert("new")}
+    END;
+  `);
+}
+
+export function dropSearchIndex(db: Database, schema: IndexSchema) {
+  db.exec(`
+    DROP TRIGGER IF EXISTS ${schema}.clips_fts_ai;
+    DROP TRIGGER IF EXISTS ${schema}.clips_fts_ad;
+    DROP TRIGGER IF EXISTS ${schema}.clips_fts_au;
+    DROP TABLE IF EXISTS ${schema}.clips_fts;
+
+    DROP TRIGGER IF EXISTS ${schema}.clip_tags_ai;
+    DROP TRIGGER IF EXISTS ${schema}.clip_tags_ad;
+    DROP TRIGGER IF EXISTS ${schema}.clip_tags_au;
+    DROP TABLE IF EXISTS ${schema}.clip_tags;
+  `);
+}
+
+export function hasSearchIndex(db: Database, schema: IndexSchema) {
+  const master = schema === "temp" ? "sqlite_temp_master" : "sqlite_master";
+  return !!db.prepare(`SELECT 1 FROM ${master} WHERE type='trigger' AND name='clips_fts_ai'`).get();
+}
+
+// also needed after VACUUM, which may renumber clips.rowid; a no-op where the index is not live
+export function rebuildSearchIndex(db: Database, schema: IndexSchema = "main") {
+  if (!hasSearchIndex(db, schema)) return;
+  db.exec(`
+    DELETE FROM ${schema}.clips_fts;
+    INSERT INTO ${schema}.clips_fts(rowid, text, imageName, tags)
+    SELECT rowid, COALESCE(${col(schema, "clips", "text")}, ''), COALESCE(${col(schema, "clips", "imageName")}, ''),
+           ${tagsOf(schema, "clips")}
+    FROM main.clips;
+
+    DELETE FROM ${schema}.clip_tags;
+    INSERT OR IGNORE INTO ${schema}.clip_tags(clipId, tag)
+    SELECT clips.id, trim(value) FROM main.clips, json_each(${col(schema, "clips", "tagsJson")})
+    WHERE trim(value) <> '';
+  `);
+}
@@ -0,0 +1,224 @@
+// ============================
+// FILE: src/main/sensitive.ts
+// Secret detection on captured text
+// ============================
+//
+// Runs on every captured string before it is stored. A hit is handled by the policy action:
+//   drop    not recorded at all
+//   mask    only the masked text is stored
+//   expire  stored as is, deleted after expireMinutes; the list shows it redacted until revealed
+
+export type SensitiveAction = "drop" | "mask" | "expire";
+
+export type SensitivePolicy = {
+  enabled: boolean;
+  action: SensitiveAction;
+  expireMinutes: number;
+  // built-in detector ids that are switched on
+  detectors: string[];
+  // user regexes (source only, matched case-sensitively)
+  patterns: string[];
+};
+
+export type Detector = {
+  id: string;
+  label: string;
+  find: (text: string) => Span[];
+};
+
+export type Span = { start: number; end: number };
+
+export type Detection = { ids: string[]; spans: Span[] };
+
+// clipboard formats password managers set so history tools leave the entry alone
+export const CONCEALED_FORMATS = [
+  "org.nspasteboard.ConcealedType",
+  "org.nspasteboard.TransientType",
+  "ExcludeClipboardContentFromMonitorProcessing",
+  "x-kde-passwordManagerHint",
+];
+
+// id used for entries flagged through CONCEALED_FORMATS rather than their text
+export const CONCEALED = "concealed";
+
+const MASK = "•";
+
+function regexSpans(re: RegExp, text: string, accept: (m: string) => boolean = () => true): Span[] {
+  const out: Span[] = [];
+  for (const m of text.matchAll(re)) {
+    if (m[0] && accept(m[0])) out.push({ start: m.index ?? 0, end: (m.index ?? 0) + m[0].length });
+  }
+  return out;
+}
+
+export function luhnValid(digits: string) {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let d = digits.charCodeAt(i) - 48;
+    if (double) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+export const BUILTIN_DETECTORS: Detector[] = [
+  {
+    id: "aws",
+    label: "AWS access key",
+    find: (t) => [
+      ...regexSpans(/\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, t),
+      ...regexSpans(/aws_secret_access_key\s*[=:]\s*["']?[A-Za-z0-9/+=]{40}/gi, t),
+    ],
+  },
+  {
+    id: "github",
+    label: "GitHub token",
+    find: (t) => regexSpans(/\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g, t),
+  },
+  {
+    id: "jwt",
+    label: "JSON Web Token",
+    find: (t) => regexSpans(/\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g, t),
+  },
+  {
+    id: "privateKey",
+    label: "Private key",
+    find: (t) =>
+      regexSpans(
+        /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----|$)/g,
+        t
+      ),
+  },
+  {
+    id: "creditCard",
+    label: "Credit card number",
+    find: (t) =>
+      regexSpans(/\b\d(?:[ -]?\d){12,18}\b/g, t, (m) => {
+        const digits = m.replace(/\D/g, "");
+        return digits.length >= 13 && digits.length <= 19 && luhnValid(digits);
+      }),
+  },
+];
+
+export const DEFAULT_SENSITIVE: SensitivePolicy = {
+  enabled: true,
+  action: "expire",
+  expireMinutes: 5,
+  detectors: [...BUILTIN_DETECTORS.map((d) => d.id), CONCEALED],
+  patterns: [],
+};
+
+const ACTIONS: SensitiveAction[] = ["drop", "mask", "expire"];
+
+export function normalizeSensitive(p: Partial<SensitivePolicy> | undefined): SensitivePolicy {
+  const known = new Set([...BUILTIN_DETECTORS.map((d) => d.id), CONCEALED]);
+  return {
+    enabled: p?.enabled ?? DEFAULT_SENSITIVE.enabled,
+    action: ACTIONS.includes(p?.action as SensitiveAction) ? (p!.action as SensitiveAction) : DEFAULT_SENSITIVE.action,
+    expireMinutes: Math.max(1, Math.floor(Number(p?.expireMinutes) || DEFAULT_SENSITIVE.expireMinutes)),
+    detectors: Array.isArray(p?.detectors) ? p!.detectors.filter((id) => known.has(id)) : DEFAULT_SENSITIVE.detectors,
+    patterns: Array.isArray(p?.patterns)
+      ? p!.patterns.map((s) => String(s).trim()).filter(Boolean)
+      : DEFAULT_SENSITIVE.patterns,
+  };
+}
+
+// invalid user patterns, with the reason; those are skipped by detectSensitive
+export function invalidPatterns(patterns: string[]): { pattern: string; reason: string }[] {
+  const out: { pattern: string; reason: string }[] = [];
+  for (const pattern of patterns) {
+    try {
+      new RegExp(pattern, "g");
+    } catch (err: any) {
+      out.push({ pattern, reason: err?.message ?? String(err) });
+    }
+  }
+  return out;
+}
+
+const compiled = new Map<string, RegExp | null>();
+
+function userRegex(source: string): RegExp | null {
+  if (!compiled.has(source)) {
+    let re: RegExp | null = null;
+    try {
+      re = new RegExp(source, "g");
+    } catch {
+      // reported in settings
+    }
+    if (compiled.size > 100) compiled.clear();
+    compiled.set(source, re);
+  }
+  return compiled.get(source)!;
+}
+
+// formats: what else the clipboard entry advertises (see CONCEALED_FORMATS)
+export function detectSensitive(text: string, policy: SensitivePolicy, formats: string[] = []): Detection | null {
+  if (!policy.enabled) return null;
+
+  const ids: string[] = [];
+  const spans: Span[] = [];
+
+  if (policy.detectors.includes(CONCEALED) && formats.some((f) => CONCEALED_FORMATS.includes(f))) {
+    ids.push(CONCEALED);
+    spans.push({ start: 0, end: text.length });
+  }
+
+  for (const d of BUILTIN_DETECTORS) {
+    if (!policy.detectors.includes(d.id)) continue;
+    const found = d.find(text);
+    if (found.length) {
+      ids.push(d.id);
+      spans.push(...found);
+    }
+  }
+
+  policy.patterns.forEach((source, i) => {
+    const re = userRegex(source);
+    const found = re ? regexSpans(re, text) : [];
+    if (found.length) {
+      ids.push(`pattern:${i + 1}`);
+      spans.push(...found);
+    }
+  });
+
+  return ids.length ? { ids, spans } : null;
+}
+
+// keeps a short prefix of each hit so the clip stays recognizable; whitespace inside a hit is kept
+function maskSpan(s: string) {
+  const keep = s.length > 12 ? 4 : 0;
+  return s.slice(0, keep) + s.slice(keep).replace(/\S/g, MASK);
+}
+
+export function maskText(text: string, spans: Span[]) {
+  if (!spans.length) return text.replace(/\S/g, MASK);
+
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  let out = "";
+  let pos = 0;
+  for (const s of sorted) {
+    if (s.end <= pos) continue;
+    const start = Math.max(s.start, pos);
+    out += text.slice(pos, start) + maskSpan(text.slice(start, s.end));
+    pos = s.end;
+  }
+  return out + text.slice(pos);
+}
+
+// what is stored for the "mask" action
+export function redact(text: string, d: Detection) {
+  return maskText(text, d.ids.includes(CONCEALED) ? [] : d.spans);
+}
+
+// list preview of a stored secret; the spans are found again with the detectors it was flagged by
+export function redactedPreview(text: string, ids: string[], policy: SensitivePolicy) {
+  if (ids.includes(CONCEALED)) return maskText(text, []);
+  const d = detectSensitive(text, { ...policy, enabled: true, detectors: ids });
+  return maskText(text, d?.spans ?? []);
+}
@@ -0,0 +1,91 @@
+// ============================
+// FILE: src/main/snippets.ts
+// Snippet template placeholders
+// ============================
+//
+//   {{date}}  {{date:DD.MM.YYYY}}   current date (default YYYY-MM-DD)
+//   {{time}}  {{time:HH:mm:ss}}     current time (default HH:mm)
+//   {{clipboard}}                   text on the clipboard when the snippet is used
+//   {{cursor}}                      where the caret ends up after "Enter pastes"
+//   {{input:Name}}                  asked for before expanding; the same name is asked once
+//
+// Date tokens: YYYY YY MM M DD D HH H mm ss. Anything unknown is left as written.
+
+export type SnippetValues = {
+  now: Date;
+  clipboard: string;
+  // by input name
+  inputs: Record<string, string>;
+};
+
+export type Expanded = {
+  text: string;
+  // Left presses from the end of the text back to {{cursor}}; 0 without a cursor mark
+  cursorBack: number;
+};
+
+const PLACEHOLDER_RE = /\{\{\s*(date|time|clipboard|cursor|input)(?:\s*:([^}]*))?\s*\}\}/g;
+
+const pad = (n: number, w = 2) => String(n).padStart(w, "0");
+
+export function formatDate(d: Date, format: string) {
+  const tokens: Record<string, string> = {
+    YYYY: String(d.getFullYear()),
+    YY: pad(d.getFullYear() % 100),
+    MM: pad(d.getMonth() + 1),
+    M: String(d.getMonth() + 1),
+    DD: pad(d.getDate()),
+    D: String(d.getDate()),
+    HH: pad(d.getHours()),
+    H: String(d.getHours()),
+    mm: pad(d.getMinutes()),
+    ss: pad(d.getSeconds()),
+  };
+  return format.replace(/YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, (t) => tokens[t]);
+}
+
+// {{input:Name}} names in order of first use
+export function snippetInputs(body: string): string[] {
+  const out: string[] = [];
+  for (const m of body.matchAll(PLACEHOLDER_RE)) {
+    const name = (m[2] ?? "").trim();
+    if (m[1] === "input" && name && !out.includes(name)) out.push(name);
+  }
+  return out;
+}
+
+export function expandSnippet(body: string, v: SnippetValues): Expanded {
+  let cursorAt = -1;
+  let text = "";
+  let last = 0;
+
+  for (const m of body.matchAll(PLACEHOLDER_RE)) {
+    const at = m.index ?? 0;
+    text += body.slice(last, at);
+    last = at + m[0].length;
+
+    const arg = m[2]?.trim();
+    switch (m[1]) {
+      case "date":
+        text += formatDate(v.now, arg || "YYYY-MM-DD");
+        break;
+      case "time":
+        text += formatDate(v.now, arg || "HH:mm");
+        break;
+      case "clipboard":
+        text += v.clipboard;
+        break;
+      case "cursor":
+        // only the first mark counts
+        if (cursorAt < 0) cursorAt = text.length;
+        break;
+      case "input":
+        text += v.inputs[arg ?? ""] ?? "";
+        break;
+    }
+  }
+  text += body.slice(last);
+
+  // counted in code points, as the Left key moves
+  return { text, cursorBack: cursorAt < 0 ? 0 : [...text.slice(cursorAt)].length };
+}
@@ -0,0 +1,132 @@
+// ============================
+// FILE: src/main/vault.ts
+// Passphrase-based encryption for clip text, tags and image blobs
+// ============================
+//
+// A random 256-bit data key encrypts everything (AES-256-GCM). The data key itself is
+// stored wrapped by a key derived from the passphrase with scrypt, in the "vault" setting:
+//
+//   { "v": 1, "kdf": "scrypt", "salt", "N", "r", "p", "wrappedKey" }
+//
+// Sealed text:   "cv1:" + base64(iv | tag | ciphertext)
+// Sealed buffer: "CVV1"  +        iv | tag | ciphertext
+
+import * as crypto from "node:crypto";
+
+export type VaultHeader = {
+  v: 1;
+  kdf: "scrypt";
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+  wrappedKey: string;
+};
+
+export const MIN_PASSPHRASE = 8;
+
+const TEXT_PREFIX = "cv1:";
+const BUF_MAGIC = Buffer.from("CVV1");
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// ~64 MiB and a few hundred ms per attempt on a laptop
+const SCRYPT = { N: 1 << 16, r: 8, p: 1 };
+
+function scrypt(passphrase: string, salt: Buffer, h: Pick<VaultHeader, "N" | "r" | "p">): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      passphrase.normalize("NFKC"),
+      salt,
+      32,
+      { N: h.N, r: h.r, p: h.p, maxmem: 256 * h.N * h.r },
+      (err, key) => (err ? reject(err) : resolve(key))
+    );
+  });
+}
+
+function encrypt(key: Buffer, plain: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ct = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ct]);
+}
+
+// throws on a wrong key or tampered data
+function decrypt(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_BYTES);
+  const tag = sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+export function parseVaultHeader(raw: string | undefined): VaultHeader | null {
+  if (!raw) return null;
+  try {
+    const h = JSON.parse(raw);
+    if (h?.v !== 1 || h.kdf !== "scrypt" || typeof h.salt !== "string" || typeof h.wrappedKey !== "string") return null;
+    return h as VaultHeader;
+  } catch {
+    return null;
+  }
+}
+
+export async function createVault(passphrase: string): Promise<{ header: VaultHeader; key: Buffer }> {
+  const salt = crypto.randomBytes(16);
+  const kek = await scrypt(passphrase, salt, SCRYPT);
+  const key = crypto.randomBytes(32);
+
+  const header: VaultHeader = {
+    v: 1,
+    kdf: "scrypt",
+    salt: salt.toString("base64"),
+    ...SCRYPT,
+    wrappedKey: encrypt(kek, key).toString("base64"),
+  };
+  return { header, key };
+}
+
+// the data key, or null for a wrong passphrase
+export async function deriveVaultKey(header: VaultHeader, passphrase: string): Promise<Buffer | null> {
+  const kek = await scrypt(passphrase, Buffer.from(header.salt, "base64"), header);
+  try {
+    return decrypt(kek, Buffer.from(header.wrappedKey, "base64"));
+  } catch {
+    return null;
+  }
+}
+
+export function sealText(key: Buffer, text: string) {
+  return TEXT_PREFIX + encrypt(key, Buffer.from(text, "utf8")).toString("base64");
+}
+
+// only call this while the vault is on: then every stored value is sealed.
+// null when locked or corrupt
+export function openText(key: Buffer | null, value: string): string | null {
+  if (!key || !value.startsWith(TEXT_PREFIX)) return null;
+  try {
+    return decrypt(key, Buffer.from(value.slice(TEXT_PREFIX.length), "base64")).toString("utf8");
+  } catch {
+    return null;
+  }
+}
+
+export function sealBuffer(key: Buffer, data: Buffer) {
+  return Buffer.concat([BUF_MAGIC, encrypt(key, data)]);
+}
+
+export function openBuffer(key: Buffer | null, data: Buffer): Buffer | null {
+  if (!data.subarray(0, BUF_MAGIC.length).equals(BUF_MAGIC)) return data;
+  if (!key) return null;
+  try {
+    return decrypt(key, data.subarray(BUF_MAGIC.length));
+  } catch {
+    return null;
+  }
+}
+
+// stands in for sha256 while the vault is on, so stored hashes can't be matched against guesses
+export function keyedHash(key: Buffer, data: Buffer) {
+  return crypto.createHmac("sha256", key).update(data).digest("hex");
+}
@@ -2,11 +2,97 @@
 // FILE: src/renderer/App.tsx
 // ============================
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { HexColorPicker, HexColorInput } from "react-colorful";
-
-type ClipKind = "text" | "image";
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  PointerSensor,
+  pointerWithin,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import { SortableContext, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { useVirtualList } from "./useVirtualList";
+import { runTransform, TRANSFORMS, TransformGroup, TransformId } from "./transforms";
+import { CODE_LANGUAGES, fencedMarkdown, highlightCode, languageLabel } from "./highlight";
+
+type ClipKind = "text" | "image" | "rich" | "files";
+// what a text clip holds; detected by the main process (main/contentType.ts)
+type ContentType = "url" | "email" | "color" | "json" | "path" | "phone" | "timestamp" | "code";
 type Lang = "en" | "km";
+type DedupeMode = "off" | "consecutive" | "history";
+
+// 0 = no limit
+// trashDays: how long deleted clips stay in the trash
+type RetentionPolicy = { maxItems: number; maxAgeDays: number; maxStorageMb: number; trashDays: number };
+
+type SensitivePolicy = {
+  enabled: boolean;
+  action: "drop" | "mask" | "expire";
+  expireMinutes: number;
+  detectors: string[];
+  patterns: string[];
+};
+
+type ExclusionKind = "regex" | "minLength" | "maxLength" | "whitespace" | "number";
+
+type ExclusionRule = {
+  id: string;
+  kind: ExclusionKind;
+  enabled: boolean;
+  pattern?: string;
+  ignoreCase?: boolean;
+  length?: number;
+};
+
+type ExclusionTest =
+  | {
+      ok: true;
+      scanned: number;
+      matched: number;
+      perRule: Record<string, number>;
+      samples: { id: string; text: string; ruleId: string }[];
+    }
+  | { ok: false; reason?: string };
+
+type Snippet = {
+  id: string;
+  name: string;
+  body: string;
+  createdAt: number;
+  updatedAt?: number;
+  useCount: number;
+  // {{input:Name}} fields asked for before expanding
+  inputs: string[];
+};
+
+type Collection = { id: string; name: string; count: number };
+
+// every tag in the history with the number of clips carrying it
+type TagInfo = { name: string; count: number };
+
+// a named color; labelling a clip sets its borderColor (see main/labels.ts)
+type ColorLabel = { color: string; name: string };
+
+type ImportMode = "merge" | "replace";
+
+type VaultStatus = { enabled: boolean; locked: boolean };
+
+type ImportResult =
+  | { ok: true; imported: number; skipped: number; renamed: number; errors: { index: number; id?: string; reason: string }[] }
+  | { ok: false; canceled?: boolean; reason?: string };
+
+type StorageInfo = {
+  items: number;
+  clipBytes: number;
+  dbBytes: number;
+  wouldRemove: { items: number; bytes: number };
+};
 // put near the top of App.tsx (outside component)
 function applyThemeToCssRoot(theme: any) {
   const r = document.documentElement; // :root
@@ -22,14 +108,30 @@ type ClipItem = {
   id: string;
   kind: ClipKind;
   text?: string;
-  imageDataUrl?: string;
+  imageHash?: string;
+  imageUrl?: string;
+  thumbUrl?: string;
   imageName?: string;
+  // rich: formats restored along with the plain text
+  richFormats?: ("html" | "rtf")[];
+  files?: string[];
   borderColor?: string;
   bgColor?: string;
+  contentType?: ContentType;
+  // highlight.js language: detected for code clips, or picked by the user (languageManual)
+  language?: string;
+  languageManual?: boolean;
   createdAt: number;
+  // in the trash since
+  deletedAt?: number;
   updatedAt?: number;
   pinned: 0 | 1;
   tags: string[];
+  useCount: number;
+  snippet?: string;
+  sensitive?: string[];
+  preview?: string;
+  expiresAt?: number;
 };
 
 type Theme = {
@@ -57,7 +159,14 @@ type Settings = {
   closeOnCopy: boolean;
   closeOnCopyDelayMs: number;
   closeOnBlur: boolean;
+  enterPastes: boolean;
   startAtLogin: boolean;
+  dedupeMode: DedupeMode;
+  retention: RetentionPolicy;
+  sensitive: SensitivePolicy;
+  exclusions: ExclusionRule[];
+  vaultAutoLockMinutes: number;
+  colorLabels: ColorLabel[];
   lang: Lang;
   theme: Partial<Theme>;
 };
@@ -87,7 +196,7 @@ const I18N: Record<Lang, Record<string, string>> = {
     title: "ClipVault",
     settings: "Settings",
     clearAll: "Clear All",
-    searchPh: "Search text, tags, or image name… (type 'image' to filter images)",
+    searchPh: "Search… tag:foo -tag:bar kind:image is:pinned after:2026-01-01 before:7d \"phrase\" /regex/",
     shortcut: "Shortcut",
     pressKeys: "Press keys now…",
     recording: "Recording…",
@@ -101,6 +210,7 @@ const I18N: Record<Lang, Record<string, string>> = {
     background: "Background",
     resetTheme: "Reset Theme",
     noItems: "No clipboard items yet. Copy text or an image, then open the popup.",
+    noMatches: "No clips match this search.",
     imageInvalid: "(Image item is invalid. Please copy the image again.)",
     created: "Created",
     pinned: "Pinned",
@@ -114,11 +224,28 @@ const I18N: Record<Lang, Record<string, string>> = {
     editTagsTitle: "Edit tags",
     editTextTitle: "Edit text",
     renameImageTitle: "Rename image",
+    previewTitle: "Image preview",
+    preview: "Preview",
     tagsHelp: "Comma-separated, e.g. qaoa, notes, paper",
     save: "Save",
     cancel: "Cancel",
     copied: "Copied",
     deleted: "Deleted",
+    movedToTrash: "Moved to trash",
+    undo: "Undo",
+    restored: "Restored",
+    restore: "Restore",
+    purge: "Delete permanently",
+    purged: "Deleted permanently",
+    purgeConfirm: "Delete {n} clip(s) permanently? This cannot be undone.",
+    trash: "Trash",
+    emptyTrash: "Empty trash",
+    emptyTrashConfirm: "Delete all {n} clip(s) in the trash permanently? This cannot be undone.",
+    clearAllTitle: "Clear all clips",
+    clearAllHelp: "Clips go to the trash, where you can restore them until it is emptied.",
+    keepPinned: "Keep pinned clips",
+    moveToTrash: "Move to trash",
+    trashDays: "Keep deleted (days)",
     cleared: "Cleared",
     captured: "Captured",
     themeSaved: "Theme saved",
@@ -134,8 +261,191 @@ const I18N: Record<Lang, Record<string, string>> = {
     closeOnCopy: "Close after copy",
     closeDelay: "Close delay (ms)",
     closeOnBlur: "Close on focus loss (blur)",
+    enterPastes: "Enter pastes into the previous app",
+    enterPastesMac: "macOS asks to allow ClipVault under Privacy & Security → Accessibility the first time.",
+    dedupe: "Repeated copies",
+    dedupeOff: "Keep every copy",
+    dedupeConsecutive: "Merge back-to-back copies",
+    dedupeHistory: "Merge with any earlier copy",
+    uses: "Used",
+    storage: "Storage",
+    usage: "Usage",
+    maxItems: "Max clips",
+    maxAgeDays: "Max age (days)",
+    maxStorageMb: "Max size (MB)",
+    retentionHelp: "0 = no limit (the trash keeps deleted clips until you empty it). Pinned clips and clips tagged 'keep' are never removed.",
+    wouldRemove: "Policy would remove",
+    clipsUnit: "clips",
+    pruneNow: "Clean up now",
+    pruned: "Removed",
+    backup: "Backup",
+    exportBackup: "Export JSON",
+    importBackup: "Import JSON",
+    importMerge: "Merge into history",
+    importReplace: "Replace history and settings",
+    exported: "Exported",
+    importedSummary: "Imported {imported}, skipped {skipped} duplicates, {renamed} re-numbered, {errors} invalid",
+    importFailed: "Import failed",
     system: "System",
     startAtLogin: "Launch at login",
+    encryption: "Encryption",
+    vaultHelp:
+      "Encrypts clip text, image files and tags with a key derived from your passphrase. A forgotten passphrase cannot be recovered. New clips are only recorded while unlocked.",
+    passphrase: "Passphrase",
+    confirmPassphrase: "Confirm passphrase",
+    passMismatch: "Passphrases do not match",
+    vaultEnable: "Encrypt history",
+    vaultDisable: "Turn off encryption",
+    vaultWorking: "Re-encoding history…",
+    vaultOn: "Encryption on",
+    vaultOff: "Encryption off",
+    autoLock: "Auto-lock when idle",
+    never: "Never",
+    minutesUnit: "min",
+    lock: "Lock",
+    unlock: "Unlock",
+    lockedTitle: "ClipVault is locked",
+    lockedHelp: "Enter your passphrase to see your history.",
+    sensitiveContent: "Sensitive content",
+    sensitiveEnabled: "Detect secrets on capture",
+    sensitiveAction: "When found",
+    sensitiveDrop: "Don't record",
+    sensitiveMask: "Record masked",
+    sensitiveExpire: "Record, then delete",
+    expireAfter: "Delete after (min)",
+    sensitiveHelp: "Pinning a clip keeps it. Clips awaiting deletion are left out of backups.",
+    detectors: "Detectors",
+    det_aws: "AWS access keys",
+    det_github: "GitHub tokens",
+    det_jwt: "JSON Web Tokens",
+    det_privateKey: "Private keys",
+    det_creditCard: "Credit card numbers",
+    det_concealed: "Marked secret by a password manager",
+    customPatterns: "Custom patterns (one regex per line)",
+    invalidPattern: "Invalid pattern",
+    sensitive: "Sensitive",
+    reveal: "Reveal",
+    hide: "Hide",
+    expiresIn: "Deleted in",
+    richText: "Copied with formatting",
+    filesCount: "{n} files",
+    exclusions: "Don't record",
+    exclusionsHelp: "Copied text matching an enabled rule is never added to the history.",
+    ex_regex: "Matches regex",
+    ex_minLength: "Shorter than",
+    ex_maxLength: "Longer than",
+    ex_whitespace: "Only whitespace",
+    ex_number: "Only a number",
+    charsUnit: "chars",
+    ignoreCase: "Ignore case",
+    addRule: "Add rule",
+    removeRule: "Remove",
+    testRules: "Test against history",
+    testSummary: "{matched} of {scanned} text clips would not have been recorded",
+    excludeLike: "Don't record like this",
+    ruleAdded: "Rule added",
+    snippets: "Snippets",
+    snippetsHelp:
+      "Reusable text, found from the search box. Placeholders: {{date}} {{date:DD.MM.YYYY}} {{time}} {{clipboard}} {{cursor}} {{input:Name}}",
+    newSnippet: "New snippet",
+    noSnippets: "No snippets yet.",
+    snippetTitle: "Snippet",
+    snippetFillTitle: "Fill in snippet",
+    snippetName: "Name",
+    snippetBody: "Text",
+    paste: "Paste",
+    snippetSaved: "Snippet saved",
+    transformTitle: "Copy as…",
+    copyAs: "Copy as…",
+    saveAsClip: "Also save as a new clip",
+    transformHint: "Hover a transform to preview it; click to copy the result. The clip itself is not changed.",
+    tg_case: "Case",
+    tg_whitespace: "Whitespace",
+    tg_lines: "Lines",
+    tg_json: "JSON",
+    tg_encode: "Encode",
+    tg_escape: "Escape",
+    tr_upper: "UPPER CASE",
+    tr_lower: "lower case",
+    tr_title: "Title Case",
+    tr_trim: "Trim",
+    tr_collapse: "Collapse whitespace",
+    tr_sortLines: "Sort lines",
+    tr_dedupeLines: "Remove duplicate lines",
+    tr_jsonPretty: "Pretty-print",
+    tr_jsonMinify: "Minify",
+    tr_base64Encode: "Base64 encode",
+    tr_base64Decode: "Base64 decode",
+    tr_urlEncode: "URL encode",
+    tr_urlDecode: "URL decode",
+    tr_escapeShell: "Shell",
+    tr_escapeJson: "JSON string",
+    tr_escapeRegex: "Regex",
+    tr_slugify: "Slugify",
+    savedAsClip: "Copied and saved as a new clip",
+    nSelected: "{n} selected",
+    merge: "Merge…",
+    bulkTags: "Tags…",
+    exportSelection: "Export",
+    clearSelection: "Clear selection",
+    mergeTitle: "Merge clips",
+    bulkTagsTitle: "Tags for selected clips",
+    separator: "Separator",
+    sep_newline: "New line",
+    sep_blankLine: "Blank line",
+    sep_space: "Space",
+    sep_comma: "Comma",
+    sep_custom: "Custom",
+    order: "Order",
+    order_selection: "As listed",
+    order_oldest: "Oldest first",
+    order_newest: "Newest first",
+    deleteSources: "Delete the merged clips",
+    mergeNotText: "Only text clips are merged",
+    merged: "Merged",
+    addTags: "Add tags",
+    removeTags: "Remove tags",
+    all: "All",
+    newCollection: "New collection",
+    collectionTitle: "Collection",
+    collectionName: "Collection name",
+    renameCollection: "Rename",
+    deleteCollection: "Delete collection",
+    removeFromCollection: "Remove from collection",
+    addedToCollection: "Added to",
+    collectionHint: "Drag clips onto a tab to add them; drag inside a collection to reorder.",
+    colorLabels: "Color labels",
+    colorLabelsHelp: "Named colors for labelling clips. Search color:name to filter by one.",
+    labelName: "Name",
+    addLabel: "Add label",
+    removeLabel: "Remove",
+    color: "Color",
+    colorsTitle: "Clip color",
+    borderColorLabel: "Border",
+    bgColorLabel: "Background",
+    noColor: "None",
+    colorsSaved: "Color saved",
+    filterByLabel: "Show clips with this label",
+    tagManager: "Tags",
+    tagManagerHelp: "Rename, merge or delete a tag on every clip at once. Renaming onto an existing tag merges them.",
+    noTags: "No tags yet",
+    mergeTagsInto: "Merge {n} tags into",
+    tagChanged: "{n} clips updated",
+    type_url: "Link",
+    type_email: "Email",
+    type_color: "Color",
+    type_json: "JSON",
+    type_path: "Path",
+    type_phone: "Phone",
+    type_timestamp: "Timestamp",
+    type_code: "Code",
+    openLink: "Open",
+    copyMarkdown: "Markdown",
+    copyMarkdownHint: "Copy as a fenced Markdown code block",
+    codeLanguage: "Code language",
+    languageAuto: "Auto",
+    languagePlain: "Plain text",
+    imageKind: "Image",
     minimize: "Minimize",
     close: "Close",
   },
@@ -143,7 +453,7 @@ const I18N: Record<Lang, Record<string, string>> = {
     title: "ClipVault",
     settings: "ការកំណត់",
     clearAll: "លុបទាំងអស់",
-    searchPh: "ស្វែងរកអត្ថបទ ស្លាក ឬឈ្មោះរូបភាព… (វាយ 'image' ដើម្បីមើលតែរូបភាព)",
+    searchPh: "ស្វែងរក… tag:foo -tag:bar kind:image is:pinned after:2026-01-01 before:7d \"phrase\" /regex/",
     shortcut: "ផ្លូវកាត់",
     pressKeys: "សូមចុចគ្រាប់ចុចឥឡូវនេះ…",
     recording: "កំពុងថត…",
@@ -157,6 +467,7 @@ const I18N: Record<Lang, Record<string, string>> = {
     background: "ផ្ទៃខាងក្រោយ",
     resetTheme: "កំណត់ឡើងវិញ",
     noItems: "មិនទាន់មានទិន្នន័យទេ។ សូមចម្លងអត្ថបទ ឬរូបភាព ហើយបើកផ្ទាំង។",
+    noMatches: "រកមិនឃើញទិន្នន័យដែលត្រូវនឹងការស្វែងរកនេះទេ។",
     imageInvalid: "(ទិន្នន័យរូបភាពមិនត្រឹមត្រូវ។ សូមចម្លងរូបភាពម្តងទៀត។)",
     created: "បានបង្កើត",
     pinned: "បានបិទភ្ជាប់",
@@ -170,11 +481,28 @@ const I18N: Record<Lang, Record<string, string>> = {
     editTagsTitle: "កែស្លាក",
     editTextTitle: "កែអត្ថបទ",
     renameImageTitle: "ប្តូរឈ្មោះរូបភាព",
+    previewTitle: "មើលរូបភាព",
+    preview: "មើល",
     tagsHelp: "បំបែកដោយក្បៀស ឧ. qaoa, notes, paper",
     save: "រក្សាទុក",
     cancel: "បោះបង់",
     copied: "បានចម្លង",
     deleted: "បានលុប",
+    movedToTrash: "បានផ្លាស់ទៅធុងសំរាម",
+    undo: "មិនធ្វើវិញ",
+    restored: "បានស្ដារ",
+    restore: "ស្ដារ",
+    purge: "លុបជាអចិន្ត្រៃយ៍",
+    purged: "បានលុបជាអចិន្ត្រៃយ៍",
+    purgeConfirm: "លុប {n} ធាតុជាអចិន្ត្រៃយ៍? មិនអាចមិនធ្វើវិញបានទេ។",
+    trash: "ធុងសំរាម",
+    emptyTrash: "សម្អាតធុងសំរាម",
+    emptyTrashConfirm: "លុប {n} ធាតុទាំងអស់ក្នុងធុងសំរាមជាអចិន្ត្រៃយ៍? មិនអាចមិនធ្វើវិញបានទេ។",
+    clearAllTitle: "លុបធាតុទាំងអស់",
+    clearAllHelp: "ធាតុនឹងទៅធុងសំរាម ដែលអ្នកអាចស្ដារវាបាន រហូតដល់វាត្រូវបានសម្អាត។",
+    keepPinned: "រក្សាធាតុដែលបានបិទភ្ជាប់",
+    moveToTrash: "ផ្លាស់ទៅធុងសំរាម",
+    trashDays: "រក្សាធាតុបានលុប (ថ្ងៃ)",
     cleared: "បានលុបទាំងអស់",
     captured: "បានចាប់យក",
     themeSaved: "បានរក្សាទុករចនាប័ទ្ម",
@@ -190,8 +518,191 @@ const I18N: Record<Lang, Record<string, string>> = {
     closeOnCopy: "បិទបន្ទាប់ពីចម្លង",
     closeDelay: "ពន្យាពេលបិទ (ms)",
     closeOnBlur: "បិទពេលបាត់ focus",
+    enterPastes: "Enter បិទភ្ជាប់ទៅកម្មវិធីមុន",
+    enterPastesMac: "លើកដំបូង macOS នឹងសុំឱ្យអនុញ្ញាត ClipVault នៅ Privacy & Security → Accessibility។",
+    dedupe: "ការចម្លងដដែលៗ",
+    dedupeOff: "រក្សាទុកគ្រប់ការចម្លង",
+    dedupeConsecutive: "បញ្ចូលការចម្លងជាប់ៗគ្នា",
+    dedupeHistory: "បញ្ចូលជាមួយការចម្លងមុនៗ",
+    uses: "បានប្រើ",
+    storage: "ទំហំផ្ទុក",
+    usage: "ការប្រើប្រាស់",
+    maxItems: "ចំនួនអតិបរមា",
+    maxAgeDays: "អាយុអតិបរមា (ថ្ងៃ)",
+    maxStorageMb: "ទំហំអតិបរមា (MB)",
+    retentionHelp: "0 = គ្មានកំណត់ (ធុងសំរាមរក្សាធាតុបានលុប រហូតដល់អ្នកសម្អាតវា)។ ធាតុដែលបានបិទភ្ជាប់ ឬមានស្លាក 'keep' មិនត្រូវលុបទេ។",
+    wouldRemove: "គោលការណ៍នឹងលុប",
+    clipsUnit: "ធាតុ",
+    pruneNow: "សម្អាតឥឡូវ",
+    pruned: "បានលុប",
+    backup: "ការបម្រុងទុក",
+    exportBackup: "នាំចេញ JSON",
+    importBackup: "នាំចូល JSON",
+    importMerge: "បញ្ចូលទៅក្នុងប្រវត្តិ",
+    importReplace: "ជំនួសប្រវត្តិ និងការកំណត់",
+    exported: "បាននាំចេញ",
+    importedSummary: "បាននាំចូល {imported}, រំលង {skipped}, ប្តូរលេខ {renamed}, មិនត្រឹមត្រូវ {errors}",
+    importFailed: "ការនាំចូលបរាជ័យ",
     system: "ប្រព័ន្ធ",
     startAtLogin: "បើកពេលចូលប្រព័ន្ធ",
+    encryption: "ការអ៊ិនគ្រីប",
+    vaultHelp:
+      "អ៊ិនគ្រីបអត្ថបទ ឯកសាររូបភាព និងស្លាក ដោយប្រើសោដែលបានមកពីពាក្យសម្ងាត់របស់អ្នក។ ពាក្យសម្ងាត់ដែលភ្លេចមិនអាចយកមកវិញបានទេ។ ធាតុថ្មីត្រូវបានកត់ត្រាតែពេលដោះសោប៉ុណ្ណោះ។",
+    passphrase: "ពាក្យសម្ងាត់",
+    confirmPassphrase: "បញ្ជាក់ពាក្យសម្ងាត់",
+    passMismatch: "ពាក្យសម្ងាត់មិនដូចគ្នាទេ",
+    vaultEnable: "អ៊ិនគ្រីបប្រវត្តិ",
+    vaultDisable: "បិទការអ៊ិនគ្រីប",
+    vaultWorking: "កំពុងដំណើរការប្រវត្តិ…",
+    vaultOn: "បានបើកការអ៊ិនគ្រីប",
+    vaultOff: "បានបិទការអ៊ិនគ្រីប",
+    autoLock: "ចាក់សោស្វ័យប្រវត្តិពេលទំនេរ",
+    never: "មិនដែល",
+    minutesUnit: "នាទី",
+    lock: "ចាក់សោ",
+    unlock: "ដោះសោ",
+    lockedTitle: "ClipVault ត្រូវបានចាក់សោ",
+    lockedHelp: "បញ្ចូលពាក្យសម្ងាត់ដើម្បីមើលប្រវត្តិរបស់អ្នក។",
+    sensitiveContent: "ខ្លឹមសាររសើប",
+    sensitiveEnabled: "រកមើលព័ត៌មានសម្ងាត់ពេលចាប់យក",
+    sensitiveAction: "ពេលរកឃើញ",
+    sensitiveDrop: "មិនកត់ត្រា",
+    sensitiveMask: "កត់ត្រាដោយបិទបាំង",
+    sensitiveExpire: "កត់ត្រា រួចលុប",
+    expireAfter: "លុបបន្ទាប់ពី (នាទី)",
+    sensitiveHelp: "ធាតុដែលបានបិទភ្ជាប់ត្រូវបានរក្សាទុក។ ធាតុដែលរង់ចាំលុបមិនត្រូវបានបញ្ចូលក្នុងការបម្រុងទុកទេ។",
+    detectors: "ឧបករណ៍រកមើល",
+    det_aws: "សោចូលប្រើ AWS",
+    det_github: "Token GitHub",
+    det_jwt: "JSON Web Token",
+    det_privateKey: "សោឯកជន",
+    det_creditCard: "លេខកាតឥណទាន",
+    det_concealed: "កំណត់ថាសម្ងាត់ដោយកម្មវិធីគ្រប់គ្រងពាក្យសម្ងាត់",
+    customPatterns: "លំនាំផ្ទាល់ខ្លួន (regex មួយក្នុងមួយបន្ទាត់)",
+    invalidPattern: "លំនាំមិនត្រឹមត្រូវ",
+    sensitive: "រសើប",
+    reveal: "បង្ហាញ",
+    hide: "លាក់",
+    expiresIn: "លុបក្នុងរយៈពេល",
+    richText: "បានចម្លងជាមួយទម្រង់",
+    filesCount: "ឯកសារ {n}",
+    exclusions: "មិនកត់ត្រា",
+    exclusionsHelp: "អត្ថបទដែលបានចម្លង ហើយត្រូវនឹងច្បាប់ដែលបានបើក មិនត្រូវបានបញ្ចូលក្នុងប្រវត្តិទេ។",
+    ex_regex: "ត្រូវនឹង regex",
+    ex_minLength: "ខ្លីជាង",
+    ex_maxLength: "វែងជាង",
+    ex_whitespace: "មានតែដកឃ្លា",
+    ex_number: "មានតែលេខ",
+    charsUnit: "តួអក្សរ",
+    ignoreCase: "មិនប្រកាន់អក្សរធំតូច",
+    addRule: "បន្ថែមច្បាប់",
+    removeRule: "ដកចេញ",
+    testRules: "សាកល្បងលើប្រវត្តិ",
+    testSummary: "{matched} ក្នុងចំណោម {scanned} ធាតុអត្ថបទ នឹងមិនត្រូវបានកត់ត្រាទេ",
+    excludeLike: "កុំកត់ត្រាអ្វីដូចនេះ",
+    ruleAdded: "បានបន្ថែមច្បាប់",
+    snippets: "អត្ថបទគំរូ",
+    snippetsHelp:
+      "អត្ថបទសម្រាប់ប្រើឡើងវិញ ដែលរកឃើញពីប្រអប់ស្វែងរក។ កន្លែងជំនួស៖ {{date}} {{date:DD.MM.YYYY}} {{time}} {{clipboard}} {{cursor}} {{input:Name}}",
+    newSnippet: "អត្ថបទគំរូថ្មី",
+    noSnippets: "មិនទាន់មានអត្ថបទគំរូនៅឡើយទេ។",
+    snippetTitle: "អត្ថបទគំរូ",
+    snippetFillTitle: "បំពេញអត្ថបទគំរូ",
+    snippetName: "ឈ្មោះ",
+    snippetBody: "អត្ថបទ",
+    paste: "បិទភ្ជាប់",
+    snippetSaved: "បានរក្សាទុកអត្ថបទគំរូ",
+    transformTitle: "ចម្លងជា…",
+    copyAs: "ចម្លងជា…",
+    saveAsClip: "រក្សាទុកជាធាតុថ្មីផងដែរ",
+    transformHint: "ដាក់កណ្ដុរលើការបំប្លែង ដើម្បីមើលជាមុន ចុចដើម្បីចម្លងលទ្ធផល។ ធាតុដើមមិនត្រូវបានកែប្រែទេ។",
+    tg_case: "អក្សរធំ/តូច",
+    tg_whitespace: "ដកឃ្លា",
+    tg_lines: "បន្ទាត់",
+    tg_json: "JSON",
+    tg_encode: "បំលែងកូដ",
+    tg_escape: "Escape",
+    tr_upper: "អក្សរធំទាំងអស់",
+    tr_lower: "អក្សរតូចទាំងអស់",
+    tr_title: "អក្សរធំដើមពាក្យ",
+    tr_trim: "កាត់ដកឃ្លាចុងក្បាល",
+    tr_collapse: "បង្រួមដកឃ្លា",
+    tr_sortLines: "តម្រៀបបន្ទាត់",
+    tr_dedupeLines: "លុបបន្ទាត់ស្ទួន",
+    tr_jsonPretty: "រៀបចំឲ្យស្អាត",
+    tr_jsonMinify: "បង្រួម",
+    tr_base64Encode: "Base64 encode",
+    tr_base64Decode: "Base64 decode",
+    tr_urlEncode: "URL encode",
+    tr_urlDecode: "URL decode",
+    tr_escapeShell: "Shell",
+    tr_escapeJson: "ខ្សែអក្សរ JSON",
+    tr_escapeRegex: "Regex",
+    tr_slugify: "Slug",
+    savedAsClip: "បានចម្លង និងរក្សាទុកជាធាតុថ្មី",
+    nSelected: "បានជ្រើស {n}",
+    merge: "បញ្ចូលគ្នា…",
+    bulkTags: "ស្លាក…",
+    exportSelection: "នាំចេញ",
+    clearSelection: "សម្អាតការជ្រើស",
+    mergeTitle: "បញ្ចូលធាតុគ្នា",
+    bulkTagsTitle: "ស្លាកសម្រាប់ធាតុដែលបានជ្រើស",
+    separator: "សញ្ញាបំបែក",
+    sep_newline: "បន្ទាត់ថ្មី",
+    sep_blankLine: "បន្ទាត់ទទេ",
+    sep_space: "ដកឃ្លា",
+    sep_comma: "សញ្ញាក្បៀស",
+    sep_custom: "ផ្ទាល់ខ្លួន",
+    order: "លំដាប់",
+    order_selection: "តាមបញ្ជី",
+    order_oldest: "ចាស់មុន",
+    order_newest: "ថ្មីមុន",
+    deleteSources: "លុបធាតុដែលបានបញ្ចូល",
+    mergeNotText: "មានតែធាតុអត្ថបទប៉ុណ្ណោះដែលត្រូវបានបញ្ចូល",
+    merged: "បានបញ្ចូលគ្នា",
+    addTags: "បន្ថែមស្លាក",
+    removeTags: "ដកស្លាកចេញ",
+    all: "ទាំងអស់",
+    newCollection: "បណ្ដុំថ្មី",
+    collectionTitle: "បណ្ដុំ",
+    collectionName: "ឈ្មោះបណ្ដុំ",
+    renameCollection: "ប្ដូរឈ្មោះ",
+    deleteCollection: "លុបបណ្ដុំ",
+    removeFromCollection: "ដកចេញពីបណ្ដុំ",
+    addedToCollection: "បានបន្ថែមទៅ",
+    collectionHint: "អូសធាតុទៅលើផ្ទាំង ដើម្បីបន្ថែម អូសក្នុងបណ្ដុំ ដើម្បីតម្រៀបឡើងវិញ។",
+    colorLabels: "ស្លាកពណ៌",
+    colorLabelsHelp: "ពណ៌ដែលមានឈ្មោះ សម្រាប់ដាក់ស្លាកលើធាតុ។ ស្វែងរក color:ឈ្មោះ ដើម្បីត្រងតាមពណ៌មួយ។",
+    labelName: "ឈ្មោះ",
+    addLabel: "បន្ថែមស្លាក",
+    removeLabel: "ដកចេញ",
+    color: "ពណ៌",
+    colorsTitle: "ពណ៌ធាតុ",
+    borderColorLabel: "ស៊ុម",
+    bgColorLabel: "ផ្ទៃខាងក្រោយ",
+    noColor: "គ្មាន",
+    colorsSaved: "បានរក្សាទុកពណ៌",
+    filterByLabel: "បង្ហាញធាតុដែលមានស្លាកនេះ",
+    tagManager: "ស្លាក",
+    tagManagerHelp: "ប្ដូរឈ្មោះ បញ្ចូលគ្នា ឬលុបស្លាកមួយលើធាតុទាំងអស់ក្នុងពេលតែមួយ។ ការប្ដូរឈ្មោះទៅជាស្លាកដែលមានស្រាប់ នឹងបញ្ចូលវាចូលគ្នា។",
+    noTags: "មិនទាន់មានស្លាក",
+    mergeTagsInto: "បញ្ចូលស្លាក {n} ទៅក្នុង",
+    tagChanged: "បានធ្វើបច្ចុប្បន្នភាពធាតុ {n}",
+    type_url: "តំណ",
+    type_email: "អ៊ីមែល",
+    type_color: "ពណ៌",
+    type_json: "JSON",
+    type_path: "ផ្លូវឯកសារ",
+    type_phone: "ទូរស័ព្ទ",
+    type_timestamp: "ត្រាពេលវេលា",
+    type_code: "កូដ",
+    openLink: "បើក",
+    copyMarkdown: "Markdown",
+    copyMarkdownHint: "ចម្លងជាប្លុកកូដ Markdown",
+    codeLanguage: "ភាសាកូដ",
+    languageAuto: "ស្វ័យប្រវត្តិ",
+    languagePlain: "អត្ថបទធម្មតា",
+    imageKind: "រូបភាព",
     minimize: "បង្រួម",
     close: "បិទ",
   },
@@ -208,6 +719,32 @@ function formatDateTime(ts: number) {
   return `${yyyy}-${mm}-${dd} ${hh}:${mi}:${ss}`;
 }
 
+// must match SNIPPET_OPEN / SNIPPET_CLOSE in main
+const SNIPPET_RE = /\u0002([\s\S]*?)\u0003/g;
+
+function renderSnippet(snippet: string) {
+  const out: React.ReactNode[] = [];
+  let last = 0;
+  for (const m of snippet.matchAll(SNIPPET_RE)) {
+    const at = m.index ?? 0;
+    if (at > last) out.push(snippet.slice(last, at));
+    out.push(
+      <mark key={at} className="cv-hl">
+        {m[1]}
+      </mark>
+    );
+    last = at + m[0].length;
+  }
+  if (last < snippet.length) out.push(snippet.slice(last));
+  return out;
+}
+
+function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
 function keyEventToAccelerator(e: KeyboardEvent) {
   const parts: string[] = [];
   if (e.ctrlKey) parts.push("Control");
@@ -236,7 +773,160 @@ function keyEventToAccelerator(e: KeyboardEvent) {
   return parts.join("+");
 }
 
-type ModalKind = "none" | "tags" | "editText" | "renameImage";
+type ModalKind =
+  | "none"
+  | "tags"
+  | "editText"
+  | "renameImage"
+  | "preview"
+  | "snippet"
+  | "snippetFill"
+  | "transform"
+  | "merge"
+  | "bulkTags"
+  | "collection"
+  | "colors"
+  | "clearAll";
+
+const MODAL_TITLE: Record<Exclude<ModalKind, "none">, string> = {
+  tags: "editTagsTitle",
+  editText: "editTextTitle",
+  renameImage: "renameImageTitle",
+  preview: "previewTitle",
+  snippet: "snippetTitle",
+  snippetFill: "snippetFillTitle",
+  transform: "transformTitle",
+  merge: "mergeTitle",
+  bulkTags: "bulkTagsTitle",
+  collection: "collectionTitle",
+  colors: "colorsTitle",
+  clearAll: "clearAllTitle",
+};
+
+// droppable ids of collection tabs; list rows use the clip id
+const TAB_DROP_PREFIX = "collection:";
+
+type MergeOrder = "selection" | "oldest" | "newest";
+
+// "custom" uses the text field next to the choice
+const MERGE_SEPARATORS: Record<string, string> = { newline: "\n", blankLine: "\n\n", space: " ", comma: ", " };
+
+function splitTags(draft: string) {
+  return draft
+    .split(",")
+    .map((x) => x.trim())
+    .filter(Boolean);
+}
+
+// the color:<label> search term for a label; a name with spaces is quoted, an unnamed one uses its hex
+function labelToken(label: ColorLabel) {
+  const v = label.name.trim() || label.color;
+  return `color:${/\s/.test(v) ? `"${v}"` : v}`;
+}
+
+// matches the label's term as a whole word of the search text
+function labelFilterRe(label: ColorLabel) {
+  return new RegExp(`(^|\\s)${labelToken(label).replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?=\\s|$)`, "i");
+}
+
+// the label a clip is marked with, by its border or background color
+function clipLabel(item: ClipItem, labels: ColorLabel[]) {
+  const colors = [item.borderColor, item.bgColor].map((c) => c?.toLowerCase());
+  return labels.find((l) => colors.includes(l.color));
+}
+
+const TRANSFORM_GROUPS: TransformGroup[] = ["case", "whitespace", "lines", "json", "encode", "escape"];
+
+// characters of a snippet body shown next to its name
+const SNIPPET_PREVIEW = 60;
+
+function snippetPreview(body: string) {
+  const flat = body.replace(/\s+/g, " ").trim();
+  return flat.length > SNIPPET_PREVIEW ? flat.slice(0, SNIPPET_PREVIEW) + "…" : flat;
+}
+
+const PAGE_SIZE = 100;
+
+const AUTO_LOCK_CHOICES = [0, 1, 5, 15, 30, 60];
+
+// must match BUILTIN_DETECTORS + CONCEALED in main/sensitive.ts
+const SENSITIVE_DETECTORS = ["aws", "github", "jwt", "privateKey", "creditCard", "concealed"];
+
+const DEFAULT_SENSITIVE: SensitivePolicy = {
+  enabled: true,
+  action: "expire",
+  expireMinutes: 5,
+  detectors: SENSITIVE_DETECTORS,
+  patterns: [],
+};
+
+function patternError(source: string) {
+  try {
+    new RegExp(source, "g");
+    return "";
+  } catch (err: any) {
+    return err?.message ?? String(err);
+  }
+}
+
+const EXCLUSION_KINDS: ExclusionKind[] = ["regex", "minLength", "maxLength", "whitespace", "number"];
+
+// mirrors ruleError in main/exclusions.ts
+function exclusionError(rule: ExclusionRule) {
+  if (rule.kind === "regex") return rule.pattern ? patternError(rule.pattern) : "";
+  return "";
+}
+
+// file clips list this many paths, then "+N"
+const FILES_SHOWN = 5;
+
+function splitPath(p: string) {
+  const i = Math.max(p.lastIndexOf("/"), p.lastIndexOf("\\"));
+  return { dir: p.slice(0, i + 1), name: p.slice(i + 1) || p };
+}
+
+// JSON clips list this many lines, pretty-printed
+const JSON_LINES_SHOWN = 12;
+
+function prettyJson(text: string) {
+  try {
+    const lines = JSON.stringify(JSON.parse(text), null, 2).split("\n");
+    return lines.length > JSON_LINES_SHOWN ? [...lines.slice(0, JSON_LINES_SHOWN), "…"].join("\n") : lines.join("\n");
+  } catch {
+    return text;
+  }
+}
+
+// code clips list this many lines
+const CODE_LINES_SHOWN = 12;
+
+function headLines(text: string, n: number) {
+  const lines = text.split("\n");
+  return lines.length > n ? [...lines.slice(0, n), "…"].join("\n") : text;
+}
+
+function urlHost(text: string) {
+  try {
+    return new URL(text.trim()).host;
+  } catch {
+    return "";
+  }
+}
+
+// 10 digits are seconds, 13 are milliseconds (see main/contentType.ts)
+function epochMs(text: string) {
+  const v = text.trim();
+  return v.length === 13 ? Number(v) : Number(v) * 1000;
+}
+
+function minutesLeft(ts: number) {
+  return Math.max(1, Math.ceil((ts - Date.now()) / 60_000));
+}
+// how long a toast with Undo stays up
+const UNDO_TOAST_MS = 6000;
+
+// rows closer than this to the end of the loaded page trigger the next fetch
+const LOAD_MORE_THRESHOLD = 10;
 
 function useOutsideClick<T extends HTMLElement>(
   ref: React.RefObject<T | null>,
@@ -265,13 +955,166 @@ function isTextEditingTarget(el: Element | null) {
   return tag === "input" || tag === "textarea" || (el as HTMLElement).isContentEditable;
 }
 
+// A list row: drag it onto a collection tab, or (reorder) within the open collection.
+// Replaces the plain .cv-vrow wrapper, so it also takes the virtual list's measure ref.
+function DraggableRow({
+  id,
+  reorder,
+  measureRef,
+  children,
+}: {
+  id: string;
+  reorder: boolean;
+  measureRef: (el: HTMLElement | null) => void;
+  children: React.ReactNode;
+}) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id });
+
+  return (
+    <div
+      className="cv-vrow"
+      data-vkey={id}
+      ref={(el) => {
+        setNodeRef(el);
+        measureRef(el);
+      }}
+      {...attributes}
+      {...listeners}
+      style={{
+        transform: reorder ? CSS.Transform.toString(transform) : undefined,
+        transition: reorder ? transition : undefined,
+        opacity: isDragging ? 0.5 : undefined,
+      }}
+    >
+      {children}
+    </div>
+  );
+}
+
+// tags shown under a tag field
+const TAG_SUGGESTIONS = 8;
+
+// A comma-separated tag field with chips for known tags that start like the name being typed;
+// click a chip, or press Tab for the first one, to complete it.
+function TagInput({
+  value,
+  onChange,
+  tags,
+  placeholder,
+  autoFocus,
+}: {
+  value: string;
+  onChange: (next: string) => void;
+  tags: TagInfo[];
+  placeholder?: string;
+  autoFocus?: boolean;
+}) {
+  const parts = value.split(",");
+  const typing = parts[parts.length - 1].trim().toLowerCase();
+  const done = new Set(parts.slice(0, -1).map((x) => x.trim().toLowerCase()));
+  const suggestions = tags
+    .filter((tg) => !done.has(tg.name.toLowerCase()) && tg.name.toLowerCase().startsWith(typing) && tg.name.toLowerCase() !== typing)
+    .slice(0, TAG_SUGGESTIONS);
+
+  function accept(name: string) {
+    onChange([...parts.slice(0, -1).map((x) => x.trim()).filter(Boolean), name].join(", ") + ", ");
+  }
+
+  return (
+    <>
+      <input
+        className="cv-input cv-nodrag"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Tab" && typing && suggestions.length) {
+            e.preventDefault();
+            accept(suggestions[0].name);
+          }
+        }}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+      />
+      {suggestions.length > 0 && (
+        <div className="cv-tag-suggestions">
+          {suggestions.map((tg) => (
+            <button key={tg.name} type="button" className="cv-tag cv-nodrag" onClick={() => accept(tg.name)}>
+              {tg.name} <span className="cv-muted">{tg.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+// A textarea over a highlighted copy of its text: the textarea keeps editing native (caret, selection,
+// undo) with its own glyphs transparent, and the <pre> behind it scrolls along.
+function CodeEditor({
+  value,
+  onChange,
+  language,
+}: {
+  value: string;
+  onChange: (next: string) => void;
+  language?: string;
+}) {
+  const preRef = useRef<HTMLPreElement | null>(null);
+
+  return (
+    <div className="cv-code-editor">
+      <pre
+        ref={preRef}
+        className="cv-code-layer"
+        aria-hidden
+        // a trailing newline needs a line after it to take up space
+        dangerouslySetInnerHTML={{ __html: highlightCode(value, language) + "\n" }}
+      />
+      <textarea
+        className="cv-input cv-code-layer cv-nodrag"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => {
+          if (!preRef.current) return;
+          preRef.current.scrollTop = e.currentTarget.scrollTop;
+          preRef.current.scrollLeft = e.currentTarget.scrollLeft;
+        }}
+        spellCheck={false}
+        autoFocus
+      />
+    </div>
+  );
+}
+
+function CollectionTab({
+  collection,
+  active,
+  onSelect,
+}: {
+  collection: Collection;
+  active: boolean;
+  onSelect: () => void;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: TAB_DROP_PREFIX + collection.id });
+
+  return (
+    <button
+      ref={setNodeRef}
+      className={"cv-tab cv-nodrag" + (active ? " active" : "") + (isOver ? " over" : "")}
+      onClick={onSelect}
+    >
+      {collection.name} <span className="cv-muted">{collection.count}</span>
+    </button>
+  );
+}
+
 function ColorRowHex({
   label,
   value,
   onChange,
   onPickerOpenChange,
 }: {
-  label: string;
+  label: React.ReactNode;
   value: string;
   onChange: (next: string) => void;
   onPickerOpenChange?: (open: boolean) => void;
@@ -378,7 +1221,35 @@ export default function App() {
     queryRef.current = query;
   }, [query]);
 
+  // null: the whole history
+  const [activeCollection, setActiveCollection] = useState<string | null>(null);
+  const collectionRef = useRef<string | null>(null);
+  useEffect(() => {
+    collectionRef.current = activeCollection;
+  }, [activeCollection]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  // the Trash tab lists deleted clips instead (activeCollection is null then)
+  const [inTrash, setInTrash] = useState(false);
+  const trashRef = useRef(false);
+  const [trashCount, setTrashCount] = useState(0);
+  // Clear All leaves pinned clips alone
+  const [keepPinned, setKeepPinned] = useState(true);
+  const [collectionDraft, setCollectionDraft] = useState("");
+  const [collectionMsg, setCollectionMsg] = useState("");
+  // the collection modal renames the open collection instead of creating one
+  const [renamingCollection, setRenamingCollection] = useState(false);
+  // clip being dragged, for the overlay
+  const [dragId, setDragId] = useState<string | null>(null);
+
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [searchError, setSearchError] = useState("");
+
+  // pagination: refs mirror state so async loaders never see a stale page
+  const itemsRef = useRef<ClipItem[]>([]);
+  const nextCursorRef = useRef<string | undefined>(undefined);
+  const loadingMoreRef = useRef(false);
+  const requestSeq = useRef(0);
+  const [hasMore, setHasMore] = useState(false);
 
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [shortcutDraft, setShortcutDraft] = useState("CommandOrControl+Shift+V");
@@ -389,7 +1260,8 @@ export default function App() {
   const [lang, setLang] = useState<Lang>("en");
   const t = (k: string) => I18N[lang][k] ?? k;
 
-  const [toast, setToast] = useState("");
+  // undo: a toast with an Undo button (see showToast)
+  const [toast, setToast] = useState<{ msg: string; undo?: () => void } | null>(null);
   const toastTimer = useRef<number | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
 
@@ -397,7 +1269,31 @@ export default function App() {
   const [closeOnCopy, setCloseOnCopy] = useState(true);
   const [closeOnCopyDelayMs, setCloseOnCopyDelayMs] = useState(0);
   const [closeOnBlur, setCloseOnBlur] = useState(false);
+  const [enterPastes, setEnterPastes] = useState(false);
+  const [pasteSupport, setPasteSupport] = useState<{ name: string; reason: string } | null>(null);
   const [startAtLogin, setStartAtLogin] = useState(false);
+  const [dedupeMode, setDedupeMode] = useState<DedupeMode>("history");
+  const [retention, setRetention] = useState<RetentionPolicy>({ maxItems: 0, maxAgeDays: 0, maxStorageMb: 0, trashDays: 30 });
+  const [storageInfo, setStorageInfo] = useState<StorageInfo | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+  const [backupMsg, setBackupMsg] = useState("");
+  const [importErrors, setImportErrors] = useState<{ index: number; id?: string; reason: string }[]>([]);
+  const [vault, setVault] = useState<VaultStatus>({ enabled: false, locked: false });
+  const [autoLockMinutes, setAutoLockMinutes] = useState(5);
+  const [unlockDraft, setUnlockDraft] = useState("");
+  const [unlockMsg, setUnlockMsg] = useState("");
+  const [vaultPass, setVaultPass] = useState("");
+  const [vaultPass2, setVaultPass2] = useState("");
+  const [vaultMsg, setVaultMsg] = useState("");
+  const [vaultBusy, setVaultBusy] = useState(false);
+  const [sensitive, setSensitive] = useState<SensitivePolicy>(DEFAULT_SENSITIVE);
+  // edited as text, saved line by line
+  const [patternsDraft, setPatternsDraft] = useState("");
+  const [exclusions, setExclusions] = useState<ExclusionRule[]>([]);
+  const [exclusionTest, setExclusionTest] = useState<ExclusionTest | null>(null);
+  const [colorLabels, setColorLabels] = useState<ColorLabel[]>([]);
+  // sensitive clips shown in full until the popup is next opened
+  const [revealed, setRevealed] = useState<Set<string>>(() => new Set());
 
   // interaction locks
   const [colorPickerOpen, setColorPickerOpen] = useState(false);
@@ -407,31 +1303,140 @@ export default function App() {
   const [modalItem, setModalItem] = useState<ClipItem | null>(null);
   const [tagsDraft, setTagsDraft] = useState("");
   const [editDraft, setEditDraft] = useState("");
+  // "auto" = the detected language, "" = plain text, else a highlight.js language
+  const [editLanguage, setEditLanguage] = useState("auto");
   const [renameDraft, setRenameDraft] = useState("");
-
-  function showToast(msg: string) {
-    setToast(msg);
+  // "" = no color
+  const [borderDraft, setBorderDraft] = useState("");
+  const [bgDraft, setBgDraft] = useState("");
+
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  // snippets matching the search box, shown above the clips
+  const [snippetMatches, setSnippetMatches] = useState<Snippet[]>([]);
+  // being edited (snippet modal; null = new) or filled in (snippetFill modal)
+  const [modalSnippet, setModalSnippet] = useState<Snippet | null>(null);
+  const [snippetNameDraft, setSnippetNameDraft] = useState("");
+  const [snippetBodyDraft, setSnippetBodyDraft] = useState("");
+  const [snippetInputs, setSnippetInputs] = useState<Record<string, string>>({});
+  const [snippetMsg, setSnippetMsg] = useState("");
+
+  // "Copy as…" modal (acts on modalItem)
+  const [transformHover, setTransformHover] = useState<TransformId | null>(null);
+  const [transformSave, setTransformSave] = useState(false);
+  const [transformMsg, setTransformMsg] = useState("");
+
+  // multi-select (Shift/Ctrl-click, Shift+Arrow); separate from the keyboard cursor (selectedIndex)
+  const [picked, setPicked] = useState<Set<string>>(() => new Set());
+  // where a Shift range starts
+  const pickAnchor = useRef(0);
+  const [mergeSeparator, setMergeSeparator] = useState("newline");
+  const [mergeCustom, setMergeCustom] = useState("");
+  const [mergeOrder, setMergeOrder] = useState<MergeOrder>("selection");
+  const [mergeDeleteSources, setMergeDeleteSources] = useState(false);
+  const [batchMsg, setBatchMsg] = useState("");
+  const [addTagsDraft, setAddTagsDraft] = useState("");
+  const [removeTagsDraft, setRemoveTagsDraft] = useState("");
+
+  // tag manager (settings) and tag field suggestions
+  const [allTags, setAllTags] = useState<TagInfo[]>([]);
+  // rename drafts by tag name
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+  const [tagsPicked, setTagsPicked] = useState<Set<string>>(() => new Set());
+  const [mergeTagsInto, setMergeTagsInto] = useState("");
+  const [tagsMsg, setTagsMsg] = useState("");
+
+  // with undo the toast stays up long enough to reach its button
+  function showToast(msg: string, undo?: () => void) {
+    setToast({ msg, undo });
     if (toastTimer.current) window.clearTimeout(toastTimer.current);
-    toastTimer.current = window.setTimeout(() => setToast(""), 1100);
+    toastTimer.current = window.setTimeout(() => setToast(null), undo ? UNDO_TOAST_MS : 1100);
   }
 useEffect(() => {
   applyThemeToCssRoot(theme);
 }, [theme]);
-  async function refresh(q: string) {
-    const h = await window.clipvault.getHistory(q);
-    setItems(h as any);
-    setSelectedIndex(0);
+  function applyPage(next: ClipItem[], nextCursor: string | undefined) {
+    itemsRef.current = next;
+    nextCursorRef.current = nextCursor;
+    setItems(next);
+    setHasMore(!!nextCursor);
+  }
+
+  // keepLoaded: background refresh (historyUpdated) keeps as many rows and the selection as before
+  async function refresh(q: string, keepLoaded = false) {
+    const seq = ++requestSeq.current;
+    const limit = keepLoaded ? Math.max(PAGE_SIZE, itemsRef.current.length) : PAGE_SIZE;
+    const res = await window.clipvault.getHistory(q, {
+      limit,
+      collectionId: collectionRef.current ?? undefined,
+      trash: trashRef.current,
+    });
+    if (seq !== requestSeq.current) return;
+
+    loadingMoreRef.current = false;
+    if (!res.ok) {
+      setSearchError(res.reason || "Invalid query");
+      applyPage([], undefined);
+      return;
+    }
+    setSearchError("");
+    applyPage(res.items as ClipItem[], res.nextCursor);
+    if (keepLoaded) {
+      setSelectedIndex((i) => Math.min(i, Math.max(0, res.items.length - 1)));
+    } else {
+      setSelectedIndex(0);
+      if (list.scrollRef.current) list.scrollRef.current.scrollTop = 0;
+    }
+  }
+
+  // resolves to the number of rows appended
+  async function loadMore(): Promise<number> {
+    const cursor = nextCursorRef.current;
+    if (!cursor || loadingMoreRef.current) return 0;
+
+    loadingMoreRef.current = true;
+    const seq = requestSeq.current;
+    try {
+      const res = await window.clipvault.getHistory(queryRef.current, {
+        cursor,
+        limit: PAGE_SIZE,
+        collectionId: collectionRef.current ?? undefined,
+        trash: trashRef.current,
+      });
+      if (seq !== requestSeq.current || !res.ok) return 0;
+
+      applyPage([...itemsRef.current, ...(res.items as ClipItem[])], res.nextCursor);
+      return res.items.length;
+    } finally {
+      if (seq === requestSeq.current) loadingMoreRef.current = false;
+    }
   }
 
   async function persistSettings(partial: Partial<Settings>) {
     await window.clipvault.setSettings(partial);
   }
 
-  async function copyItem(item: ClipItem) {
+  // paste: "Enter pastes" is on and this came from the Enter key
+  async function copyItem(item: ClipItem, paste = false) {
     if (item.kind === "text") {
-      await window.clipvault.setClipboard({ kind: "text", text: item.text ?? "" });
+      await window.clipvault.setClipboard({ kind: "text", text: item.text ?? "", clipId: item.id });
     } else {
-      await window.clipvault.setClipboard({ kind: "image", imageDataUrl: item.imageDataUrl ?? "" });
+      // image, rich and file clips are written by main from what it stored
+      await window.clipvault.setClipboard({ kind: item.kind, clipId: item.id });
+    }
+    await afterCopy(paste);
+  }
+
+  // cursorBack: Left presses after pasting, for a snippet's {{cursor}}
+  async function afterCopy(paste: boolean, cursorBack = 0) {
+    if (paste) {
+      // hides the popup itself; on failure the text is still on the clipboard,
+      // so bring the popup back to say why
+      const res = await window.clipvault.pasteIntoPreviousApp(cursorBack);
+      if (!res.ok) {
+        await window.clipvault.showPopup();
+        showToast(res.reason || "Failed");
+      }
+      return;
     }
 
     showToast(t("copied"));
@@ -461,7 +1466,17 @@ useEffect(() => {
       setCloseOnCopy(Boolean(s?.closeOnCopy));
       setCloseOnCopyDelayMs(Number(s?.closeOnCopyDelayMs || 0));
       setCloseOnBlur(Boolean(s?.closeOnBlur));
+      setEnterPastes(Boolean(s?.enterPastes));
       setStartAtLogin(Boolean(s?.startAtLogin));
+      setDedupeMode(s?.dedupeMode ?? "history");
+      if (s?.retention) setRetention(s.retention);
+      if (s?.sensitive) {
+        setSensitive(s.sensitive);
+        setPatternsDraft(s.sensitive.patterns.join("\n"));
+      }
+      setExclusions(s?.exclusions ?? []);
+      setColorLabels(s?.colorLabels ?? []);
+      setAutoLockMinutes(Number(s?.vaultAutoLockMinutes ?? 5));
     });
 
     // If you expose this in preload, keep it:
@@ -469,7 +1484,10 @@ useEffect(() => {
       if (r?.ok) setStartAtLogin(Boolean(r.openAtLogin));
     });
 
+    window.clipvault.getVaultStatus().then(setVault);
+    window.clipvault.getPasteSupport().then(setPasteSupport);
     refresh("").catch(() => undefined);
+    loadCollections().catch(() => undefined);
 
     const offPopup = window.clipvault.onPopupOpened(() => {
       setQuery("");
@@ -478,9 +1496,12 @@ useEffect(() => {
       setShortcutMsg("");
       setModal("none");
       setModalItem(null);
+      setModalSnippet(null);
+      setPicked(new Set());
       setRecording(false);
       setColorPickerOpen(false);
       setIsTypingSearch(false);
+      setRevealed(new Set());
 
       setTimeout(() => inputRef.current?.focus(), 40);
     });
@@ -497,28 +1518,99 @@ useEffect(() => {
       setCloseOnCopy(Boolean(s?.closeOnCopy));
       setCloseOnCopyDelayMs(Number(s?.closeOnCopyDelayMs || 0));
       setCloseOnBlur(Boolean(s?.closeOnBlur));
+      setEnterPastes(Boolean(s?.enterPastes));
       setStartAtLogin(Boolean(s?.startAtLogin));
+      setDedupeMode(s?.dedupeMode ?? "history");
+      if (s?.retention) setRetention(s.retention);
+      if (s?.sensitive) setSensitive(s.sensitive);
+      setExclusions(s?.exclusions ?? []);
+      setColorLabels(s?.colorLabels ?? []);
+      setAutoLockMinutes(Number(s?.vaultAutoLockMinutes ?? 5));
     });
 
     // ✅ FIX: use queryRef so it always refreshes with the latest query
     const offHistory = window.clipvault.onHistoryUpdated(() => {
-      refresh(queryRef.current).catch(() => undefined);
+      refresh(queryRef.current, true).catch(() => undefined);
+      loadCollections().catch(() => undefined);
+    });
+
+    // locking drops everything decrypted from the window
+    const offVault = window.clipvault.onVaultUpdated((v: VaultStatus) => {
+      setVault(v);
+      if (!v.locked) return;
+      applyPage([], undefined);
+      setSnippetMatches([]);
+      setSnippets([]);
+      setCollections([]);
+      setPicked(new Set());
+      setSettingsOpen(false);
+      setModal("none");
+      setModalItem(null);
+      setModalSnippet(null);
     });
 
     return () => {
       offPopup();
       offSettings();
       offHistory();
+      offVault();
     };
   }, []);
 
   useEffect(() => {
-    const tt = window.setTimeout(() => refresh(query).catch(() => undefined), 120);
+    setPicked(new Set());
+    const tt = window.setTimeout(() => {
+      refresh(query).catch(() => undefined);
+      refreshSnippetMatches(query).catch(() => undefined);
+    }, 120);
     return () => window.clearTimeout(tt);
   }, [query]);
 
+  // the full lists are only needed by the settings panel
+  useEffect(() => {
+    if (!settingsOpen) return;
+    loadSnippets().catch(() => undefined);
+    loadTags().catch(() => undefined);
+  }, [settingsOpen]);
+
   const visible = useMemo(() => items, [items]);
 
+  // in list order, which is also the "As listed" merge order
+  const pickedItems = useMemo(() => visible.filter((it) => picked.has(it.id)), [visible, picked]);
+  const pickedText = useMemo(() => pickedItems.filter((it) => it.kind === "text" || it.kind === "rich"), [pickedItems]);
+
+  // a search ranks the rows, so the collection's own order only shows (and can change) without one
+  const reorderable = !!activeCollection && !query.trim();
+  // the same goes for the manual order of pinned clips in the full history
+  const pinnedReorderable = !activeCollection && !inTrash && !query.trim();
+  const rowIds = useMemo(() => visible.map((it) => it.id), [visible]);
+  const dragItem = dragId ? visible.find((it) => it.id === dragId) : undefined;
+
+  // a few pixels of movement before a drag starts, so clicks and buttons keep working
+  const dragSensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 6 } }));
+
+  const getRowKey = useCallback((i: number) => visible[i]?.id ?? String(i), [visible]);
+  const list = useVirtualList<HTMLDivElement>({
+    count: visible.length,
+    getKey: getRowKey,
+    estimateHeight: 120,
+  });
+
+  // only keyboard moves scroll the list; hover selection must not make it jump
+  const scrollToSelection = useRef(false);
+  useEffect(() => {
+    if (!scrollToSelection.current) return;
+    scrollToSelection.current = false;
+    list.scrollToIndex(selectedIndex);
+  }, [selectedIndex]);
+
+  // scrolled (or arrowed) close to the end of what is loaded
+  useEffect(() => {
+    if (hasMore && (list.end >= visible.length - LOAD_MORE_THRESHOLD || selectedIndex >= visible.length - LOAD_MORE_THRESHOLD)) {
+      loadMore().catch(() => undefined);
+    }
+  }, [hasMore, list.end, selectedIndex, visible.length]);
+
   // keep main informed of interaction state (optional but recommended)
   useEffect(() => {
     window.clipvault.setInteractionState?.({
@@ -530,6 +1622,15 @@ useEffect(() => {
     });
   }, [settingsOpen, modal, colorPickerOpen, recording, isTypingSearch]);
 
+  // storage usage + what the current policy would remove (only while settings are visible)
+  useEffect(() => {
+    if (!settingsOpen) return;
+    const tt = window.setTimeout(() => {
+      window.clipvault.getStorageInfo(retention).then(setStorageInfo).catch(() => undefined);
+    }, 200);
+    return () => window.clearTimeout(tt);
+  }, [settingsOpen, retention, items]);
+
   const rootStyle: React.CSSProperties = {
     ["--bg" as any]: theme.bg,
     ["--panel" as any]: theme.panel,
@@ -542,18 +1643,75 @@ useEffect(() => {
 
   /* ------------------ actions ------------------ */
 
+  // deleting moves clips to the trash; Undo puts these back
+  async function undoDelete(ids: string[]) {
+    const res = await window.clipvault.restoreClips(ids);
+    showToast(res.ok ? t("restored") : res.reason);
+    await refresh(queryRef.current, true);
+  }
+
   async function onDelete(item: ClipItem) {
-    await window.clipvault.deleteClip(item.id);
-    showToast(t("deleted"));
-    await refresh(query);
+    const res = await window.clipvault.deleteClip(item.id);
+    showToast(t("movedToTrash"), () => undoDelete(res.ids));
+    await refresh(query, true);
+  }
+
+  function openClearAllModal() {
+    setKeepPinned(true);
+    setModal("clearAll");
   }
 
   async function onClearAll() {
-    await window.clipvault.clearAll();
-    showToast(t("cleared"));
+    const res = await window.clipvault.clearAll({ keepPinned });
+    closeModal();
+    showToast(`${t("movedToTrash")}: ${res.ids.length}`, res.ids.length ? () => undoDelete(res.ids) : undefined);
+    await refresh(query);
+  }
+
+  /* ------------------ trash ------------------ */
+
+  function openTrash() {
+    collectionRef.current = null;
+    trashRef.current = true;
+    setActiveCollection(null);
+    setInTrash(true);
+    setPicked(new Set());
+    refresh(queryRef.current).catch(() => undefined);
+  }
+
+  async function onRestore(ids: string[]) {
+    const res = await window.clipvault.restoreClips(ids);
+    setPicked(new Set());
+    showToast(res.ok ? `${t("restored")}: ${res.restored}` : res.reason);
+    await refresh(query, true);
+  }
+
+  async function onPurge(ids: string[]) {
+    if (!window.confirm(t("purgeConfirm").replace("{n}", String(ids.length)))) return;
+    const res = await window.clipvault.purgeClips(ids);
+    setPicked(new Set());
+    showToast(`${t("purged")}: ${res.removed}`);
+    await refresh(query, true);
+  }
+
+  async function onEmptyTrash() {
+    if (!window.confirm(t("emptyTrashConfirm").replace("{n}", String(trashCount)))) return;
+    const res = await window.clipvault.emptyTrash();
+    showToast(`${t("purged")}: ${res.removed}`);
     await refresh(query);
   }
 
+  // the clip as a fenced block tagged with its language, for chats, issues and docs
+  async function copyAsMarkdown(item: ClipItem) {
+    await window.clipvault.setClipboard({ kind: "text", text: fencedMarkdown(item.text ?? "", item.language) });
+    await afterCopy(false);
+  }
+
+  async function onOpenUrl(item: ClipItem) {
+    const res = await window.clipvault.openUrl(item.text ?? "");
+    if (!res.ok) showToast(res.reason || "Failed");
+  }
+
   async function onTogglePin(item: ClipItem) {
     await window.clipvault.togglePin(item.id);
     showToast(item.pinned ? t("unpin") : t("pin"));
@@ -562,13 +1720,16 @@ useEffect(() => {
 
   function openTagsModal(item: ClipItem) {
     setModalItem(item);
-    setTagsDraft((item.tags ?? []).join(", "));
+    // ends with a separator so the field opens ready for the next tag
+    setTagsDraft((item.tags ?? []).map((tg) => tg + ", ").join(""));
     setModal("tags");
+    loadTags().catch(() => undefined);
   }
 
   function openEditTextModal(item: ClipItem) {
     setModalItem(item);
     setEditDraft(item.text ?? "");
+    setEditLanguage(item.languageManual ? item.language ?? "" : "auto");
     setModal("editText");
   }
 
@@ -578,36 +1739,83 @@ useEffect(() => {
     setModal("renameImage");
   }
 
+  function openColorsModal(item: ClipItem) {
+    setModalItem(item);
+    setBorderDraft(item.borderColor ?? "");
+    setBgDraft(item.bgColor ?? "");
+    setModal("colors");
+  }
+
+  function openPreviewModal(item: ClipItem) {
+    setModalItem(item);
+    setModal("preview");
+  }
+
+  function openMergeModal() {
+    setBatchMsg("");
+    setModal("merge");
+  }
+
+  function openBulkTagsModal() {
+    setAddTagsDraft("");
+    setRemoveTagsDraft("");
+    setBatchMsg("");
+    setModal("bulkTags");
+    loadTags().catch(() => undefined);
+  }
+
+  function openTransformModal(item: ClipItem) {
+    setModalItem(item);
+    setTransformHover(null);
+    setTransformSave(false);
+    setTransformMsg("");
+    setModal("transform");
+  }
+
   function closeModal() {
     setModal("none");
     setModalItem(null);
+    setModalSnippet(null);
     setTagsDraft("");
     setEditDraft("");
     setRenameDraft("");
+    setSnippetInputs({});
   }
 
   async function saveTags() {
     if (!modalItem) return;
-    const tags = tagsDraft
-      .split(",")
-      .map((x) => x.trim())
-      .filter(Boolean);
-
-    await window.clipvault.setTags(modalItem.id, tags);
+    await window.clipvault.setTags(modalItem.id, splitTags(tagsDraft));
     showToast(t("tagsSaved"));
     closeModal();
     await refresh(query);
   }
 
+  // what the edit modal highlights with; for "auto" the language detected from the saved text
+  const editHighlight =
+    editLanguage === "auto" ? (modalItem?.languageManual ? undefined : modalItem?.language) : editLanguage || undefined;
+
   async function saveEditText() {
     if (!modalItem) return;
     const text = editDraft ?? "";
     await window.clipvault.updateClipText(modalItem.id, text);
+    // the text goes first: an "auto" choice detects from the edited text
+    if (editLanguage !== (modalItem.languageManual ? modalItem.language ?? "" : "auto")) {
+      await window.clipvault.setClipLanguage(modalItem.id, editLanguage === "auto" ? null : editLanguage);
+    }
     showToast(t("save"));
     closeModal();
     await refresh(query);
   }
 
+  async function saveColors() {
+    if (!modalItem) return;
+    const res = await window.clipvault.setClipColors(modalItem.id, { borderColor: borderDraft || null, bgColor: bgDraft || null });
+    if (!res?.ok) return showToast(res?.reason || "Failed");
+    showToast(t("colorsSaved"));
+    closeModal();
+    await refresh(query);
+  }
+
   async function saveRenameImage() {
     if (!modalItem) return;
     const name = (renameDraft ?? "").trim();
@@ -617,100 +1825,605 @@ useEffect(() => {
     await refresh(query);
   }
 
-  async function saveShortcut() {
-    setShortcutMsg("Saving…");
-    const res = await window.clipvault.setPopupShortcut(shortcutDraft);
-    if (res?.ok) {
-      setShortcutMsg("Saved");
-      showToast("Shortcut updated");
-    } else {
-      setShortcutMsg(res?.reason || "Failed");
+  /* ------------------ collections ------------------ */
+
+  // the ref is set right away so the refresh below already lists the new tab
+  function selectCollection(id: string | null) {
+    collectionRef.current = id;
+    trashRef.current = false;
+    setActiveCollection(id);
+    setInTrash(false);
+    setPicked(new Set());
+    refresh(queryRef.current).catch(() => undefined);
+  }
+
+  // the tabs: collections, and the count on the Trash tab
+  async function loadCollections() {
+    window.clipvault.trashCount().then(setTrashCount).catch(() => undefined);
+    const res = await window.clipvault.listCollections();
+    if (!res.ok) return;
+    const next: Collection[] = res.collections ?? [];
+    setCollections(next);
+    // deleted by a replacing import
+    if (collectionRef.current && !next.some((k) => k.id === collectionRef.current)) selectCollection(null);
+  }
+
+  function openCollectionModal(rename: boolean) {
+    const current = collections.find((k) => k.id === activeCollection);
+    setRenamingCollection(rename);
+    setCollectionDraft(rename ? current?.name ?? "" : "");
+    setCollectionMsg("");
+    setModal("collection");
+  }
+
+  async function saveCollection() {
+    const res: { ok: boolean; id?: string; reason?: string } =
+      renamingCollection && activeCollection
+        ? await window.clipvault.renameCollection(activeCollection, collectionDraft)
+        : await window.clipvault.createCollection(collectionDraft);
+    if (!res.ok) {
+      setCollectionMsg(res.reason || "Failed");
+      return;
     }
+    closeModal();
+    await loadCollections();
+    if (res.id) selectCollection(res.id);
   }
 
-  async function saveTheme(next: Theme) {
-    setTheme(next);
-    await persistSettings({ theme: next });
-    showToast(t("themeSaved"));
+  async function onDeleteCollection() {
+    if (!activeCollection) return;
+    await window.clipvault.deleteCollection(activeCollection);
+    selectCollection(null);
+    await loadCollections();
   }
 
-  async function onChangeLang(next: Lang) {
-    setLang(next);
-    await persistSettings({ lang: next });
-    showToast("Saved");
+  async function onRemoveFromCollection(item: ClipItem) {
+    if (!activeCollection) return;
+    await window.clipvault.removeFromCollection(activeCollection, [item.id]);
+    await refresh(query, true);
   }
 
-  /* ------------------ keyboard ------------------ */
+  function onDragStart(e: DragStartEvent) {
+    setDragId(String(e.active.id));
+  }
 
-  useEffect(() => {
-    const onKeyDown = async (e: KeyboardEvent) => {
-      // recording shortcut: do not close popup
-      if (recording) {
-        e.preventDefault();
-        e.stopPropagation();
+  // onto a tab: add the clip (or the whole multi-selection it belongs to); onto a row: reorder
+  async function onDragEnd(e: DragEndEvent) {
+    setDragId(null);
+    const id = String(e.active.id);
+    const over = e.over ? String(e.over.id) : null;
+    if (!over || over === id || inTrash) return;
+
+    if (over.startsWith(TAB_DROP_PREFIX)) {
+      const target = over.slice(TAB_DROP_PREFIX.length);
+      const ids = picked.has(id) ? pickedItems.map((it) => it.id) : [id];
+      const res = await window.clipvault.addToCollection(target, ids);
+      const name = collections.find((k) => k.id === target)?.name ?? "";
+      showToast(res.ok ? `${t("addedToCollection")} ${name}` : res.reason || "Failed");
+      return;
+    }
 
-        if (e.key === "Escape") {
-          setRecording(false);
-          setShortcutMsg("");
-          return;
-        }
+    await moveRow(id, over);
+  }
 
-        const accel = keyEventToAccelerator(e);
-        if (!accel) return;
+  // id takes over's place: inside the open collection, or among the pinned clips of the full history.
+  // Resolves to false when that order isn't shown (a search is active) or the rows can't swap.
+  async function moveRow(id: string, over: string) {
+    const from = rowIds.indexOf(id);
+    const to = rowIds.indexOf(over);
+    if (from < 0 || to < 0 || from === to) return false;
 
-        setShortcutDraft(accel);
-        setRecording(false);
-        setShortcutMsg(`${t("captured")}: ${accel}`);
-        return;
-      }
+    const pinnedMove = pinnedReorderable && !!visible[from].pinned && !!visible[to].pinned;
+    if (!reorderable && !pinnedMove) return false;
 
-      // modal: Esc closes modal only
-      if (modal !== "none") {
-        if (e.key === "Escape") {
-          e.preventDefault();
-          closeModal();
-        }
-        return;
-      }
+    // optimistic, so the row doesn't jump back until historyUpdated arrives
+    const next = [...itemsRef.current];
+    next.splice(to, 0, ...next.splice(from, 1));
+    applyPage(next, nextCursorRef.current);
 
-      // color picker open: Esc does nothing
-      if (e.key === "Escape" && colorPickerOpen) {
-        e.preventDefault();
-        return;
-      }
+    if (activeCollection) await window.clipvault.moveInCollection(activeCollection, id, over);
+    else await window.clipvault.movePinned(id, over);
+    return true;
+  }
 
-      // settings open: Esc closes settings only
-      if (settingsOpen) {
-        if (e.key === "Escape") {
-          e.preventDefault();
+  /* ------------------ multi-select ------------------ */
+
+  function pickRange(from: number, to: number) {
+    const rows = itemsRef.current.slice(Math.min(from, to), Math.max(from, to) + 1);
+    setPicked(new Set(rows.map((it) => it.id)));
+  }
+
+  // Shift+Arrow: the range grows from where the first Shift move started
+  function extendPick(to: number) {
+    if (!picked.size) pickAnchor.current = selectedIndex;
+    pickRange(pickAnchor.current, to);
+  }
+
+  function onRowClick(e: React.MouseEvent, idx: number) {
+    const item = visible[idx];
+    if (!item) return;
+
+    if (e.shiftKey) {
+      if (!picked.size) pickAnchor.current = selectedIndex;
+      pickRange(pickAnchor.current, idx);
+    } else if (e.metaKey || e.ctrlKey) {
+      pickAnchor.current = idx;
+      setPicked((prev) => {
+        const next = new Set(prev);
+        if (next.has(item.id)) next.delete(item.id);
+        else next.add(item.id);
+        return next;
+      });
+    } else if (picked.size) {
+      setPicked(new Set());
+    }
+    setSelectedIndex(idx);
+  }
+
+  function mergePreview() {
+    const rows = [...pickedText];
+    if (mergeOrder !== "selection") {
+      rows.sort((a, b) => (mergeOrder === "oldest" ? a.createdAt - b.createdAt : b.createdAt - a.createdAt));
+    }
+    return rows.map((it) => it.text ?? "").join(mergeSeparatorText());
+  }
+
+  // a custom separator may spell out \n and \t
+  function mergeSeparatorText() {
+    if (mergeSeparator !== "custom") return MERGE_SEPARATORS[mergeSeparator];
+    return mergeCustom.replace(/\\n/g, "\n").replace(/\\t/g, "\t");
+  }
+
+  async function onBatchDelete() {
+    const res = await window.clipvault.deleteClips(pickedItems.map((it) => it.id));
+    setPicked(new Set());
+    const ids = res.ids ?? [];
+    showToast(`${t("movedToTrash")}: ${res.removed ?? 0}`, ids.length ? () => undoDelete(ids) : undefined);
+    await refresh(query, true);
+  }
+
+  async function onBatchPin(pinned: boolean) {
+    await window.clipvault.setClipsPinned(pickedItems.map((it) => it.id), pinned);
+    showToast(pinned ? t("pin") : t("unpin"));
+    await refresh(query, true);
+  }
+
+  async function onBatchExport() {
+    const res = await window.clipvault.exportBackup(pickedItems.map((it) => it.id));
+    if (res?.ok) showToast(`${t("exported")}: ${res.clips}`);
+    else if (!res?.canceled) showToast(res?.reason || "Failed");
+  }
+
+  async function submitMerge() {
+    const res = await window.clipvault.mergeClips(pickedText.map((it) => it.id), {
+      separator: mergeSeparatorText(),
+      order: mergeOrder,
+      deleteSources: mergeDeleteSources,
+    });
+    if (!res.ok) {
+      setBatchMsg(res.reason);
+      return;
+    }
+    closeModal();
+    setPicked(new Set());
+    showToast(`${t("merged")}: ${res.merged}`);
+    await refresh(query, true);
+  }
+
+  async function loadTags() {
+    const res = await window.clipvault.listTags();
+    if (res.ok) setAllTags(res.tags ?? []);
+  }
+
+  // renaming onto an existing name merges the two (main/index.ts rewriteTags)
+  async function onRenameTag(name: string) {
+    const to = (tagDrafts[name] ?? name).trim();
+    if (!to || to === name) return;
+    const res = await window.clipvault.renameTag(name, to);
+    if (!res.ok) return setTagsMsg(res.reason || "Failed");
+    setTagDrafts(({ [name]: _, ...rest }) => rest);
+    setTagsMsg(t("tagChanged").replace("{n}", String(res.changed ?? 0)));
+    await loadTags();
+  }
+
+  async function onDeleteTag(name: string) {
+    const res = await window.clipvault.deleteTag(name);
+    if (!res.ok) return setTagsMsg(res.reason || "Failed");
+    setTagsPicked((prev) => new Set([...prev].filter((x) => x !== name)));
+    setTagsMsg(t("tagChanged").replace("{n}", String(res.changed ?? 0)));
+    await loadTags();
+  }
+
+  async function onMergeTags() {
+    const names = [...tagsPicked];
+    const res = await window.clipvault.mergeTags(names, mergeTagsInto.trim() || names[0]);
+    if (!res.ok) return setTagsMsg(res.reason || "Failed");
+    setTagsPicked(new Set());
+    setMergeTagsInto("");
+    setTagsMsg(t("tagChanged").replace("{n}", String(res.changed ?? 0)));
+    await loadTags();
+  }
+
+  async function submitBulkTags() {
+    const res = await window.clipvault.updateClipsTags(pickedItems.map((it) => it.id), {
+      add: splitTags(addTagsDraft),
+      remove: splitTags(removeTagsDraft),
+    });
+    if (!res.ok) {
+      setBatchMsg(res.reason || "Failed");
+      return;
+    }
+    closeModal();
+    showToast(t("tagsSaved"));
+    await refresh(query, true);
+  }
+
+  // copies the transformed text; the stored clip stays as it is
+  async function applyTransform(id: TransformId) {
+    if (!modalItem) return;
+    const res = runTransform(id, modalItem.text ?? "");
+    if (!res.ok) {
+      setTransformMsg(res.reason);
+      return;
+    }
+
+    await window.clipvault.setClipboard({ kind: "text", text: res.text });
+    if (transformSave) {
+      const saved = await window.clipvault.addTextClip(res.text);
+      if (!saved.ok) {
+        setTransformMsg(saved.reason || "Failed");
+        return;
+      }
+    }
+    closeModal();
+    if (transformSave) showToast(t("savedAsClip"));
+    await afterCopy(false);
+  }
+
+  async function saveRetention(next: RetentionPolicy) {
+    setRetention(next);
+    await persistSettings({ retention: next });
+  }
+
+  async function saveSensitive(next: SensitivePolicy) {
+    setSensitive(next);
+    await persistSettings({ sensitive: next });
+  }
+
+  // detectSensitive skips these; listed under the textarea
+  const invalidPatterns = useMemo(
+    () =>
+      patternsDraft
+        .split("\n")
+        .map((l) => l.trim())
+        .filter(Boolean)
+        .map((p) => [p, patternError(p)] as const)
+        .filter(([, err]) => err),
+    [patternsDraft]
+  );
+
+  async function saveExclusions(next: ExclusionRule[]) {
+    setExclusions(next);
+    await persistSettings({ exclusions: next });
+  }
+
+  async function saveColorLabels(next: ColorLabel[]) {
+    setColorLabels(next);
+    await persistSettings({ colorLabels: next });
+  }
+
+  function updateColorLabel(index: number, patch: Partial<ColorLabel>) {
+    saveColorLabels(colorLabels.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+  }
+
+  // adds the label's color:<name> term to the search, or takes it out again
+  function toggleLabelFilter(label: ColorLabel) {
+    const q = query.trim();
+    const re = labelFilterRe(label);
+    setQuery(re.test(q) ? q.replace(re, " ").replace(/\s+/g, " ").trim() : `${q} ${labelToken(label)}`.trim());
+  }
+
+  function updateExclusion(id: string, patch: Partial<ExclusionRule>) {
+    saveExclusions(exclusions.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  }
+
+  async function onTestExclusions() {
+    setExclusionTest(await window.clipvault.testExclusions(exclusions));
+  }
+
+  async function onExcludeLike(item: ClipItem) {
+    const res = await window.clipvault.excludeLikeClip(item.id);
+    showToast(res?.ok ? t("ruleAdded") : res?.reason || "Failed");
+  }
+
+  async function loadSnippets() {
+    const res = await window.clipvault.listSnippets();
+    if (res.ok) setSnippets(res.snippets ?? []);
+  }
+
+  async function refreshSnippetMatches(q: string) {
+    const res = q.trim() ? await window.clipvault.searchSnippets(q) : null;
+    setSnippetMatches(res?.ok ? res.snippets ?? [] : []);
+  }
+
+  function openSnippetModal(sn: Snippet | null) {
+    setModalSnippet(sn);
+    setSnippetNameDraft(sn?.name ?? "");
+    setSnippetBodyDraft(sn?.body ?? "");
+    setSnippetMsg("");
+    setModal("snippet");
+  }
+
+  async function saveSnippet() {
+    const res = await window.clipvault.saveSnippet({
+      id: modalSnippet?.id,
+      name: snippetNameDraft,
+      body: snippetBodyDraft,
+    });
+    if (!res.ok) {
+      setSnippetMsg(res.reason || "Failed");
+      return;
+    }
+    showToast(t("snippetSaved"));
+    closeModal();
+    await loadSnippets();
+    await refreshSnippetMatches(query);
+  }
+
+  async function onDeleteSnippet(sn: Snippet) {
+    await window.clipvault.deleteSnippet(sn.id);
+    showToast(t("deleted"));
+    await loadSnippets();
+    await refreshSnippetMatches(query);
+  }
+
+  // asks for the {{input:...}} fields first, if there are any
+  function onUseSnippet(sn: Snippet, paste = false) {
+    if (!sn.inputs.length) return expandAndCopySnippet(sn, {}, paste);
+
+    setModalSnippet(sn);
+    setSnippetInputs(Object.fromEntries(sn.inputs.map((name) => [name, ""])));
+    setModal("snippetFill");
+  }
+
+  async function expandAndCopySnippet(sn: Snippet, inputs: Record<string, string>, paste: boolean) {
+    const res = await window.clipvault.useSnippet(sn.id, inputs);
+    if (!res.ok) {
+      showToast(res.reason || "Failed");
+      return;
+    }
+    await window.clipvault.setClipboard({ kind: "text", text: res.text });
+    await afterCopy(paste, res.cursorBack);
+  }
+
+  async function submitSnippetFill() {
+    if (!modalSnippet) return;
+    const sn = modalSnippet;
+    closeModal();
+    await expandAndCopySnippet(sn, snippetInputs, enterPastes);
+  }
+
+  function toggleRevealed(id: string) {
+    setRevealed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  async function onPruneNow() {
+    const res = await window.clipvault.pruneNow();
+    if (res?.ok) showToast(`${t("pruned")}: ${res.removed}`);
+  }
+
+  async function onExportBackup() {
+    setBackupMsg("");
+    const res = await window.clipvault.exportBackup();
+    if (res?.ok) {
+      setBackupMsg(`${t("exported")}: ${res.clips} → ${res.path}`);
+      showToast(t("exported"));
+    } else if (!res?.canceled) {
+      setBackupMsg(res?.reason || "Failed");
+    }
+  }
+
+  async function onImportBackup() {
+    setBackupMsg("");
+    setImportErrors([]);
+    const res: ImportResult = await window.clipvault.importBackup(importMode);
+    if (!res.ok) {
+      if (!res.canceled) setBackupMsg(`${t("importFailed")}: ${res.reason ?? ""}`);
+      return;
+    }
+
+    const summary = t("importedSummary")
+      .replace("{imported}", String(res.imported))
+      .replace("{skipped}", String(res.skipped))
+      .replace("{renamed}", String(res.renamed))
+      .replace("{errors}", String(res.errors.length));
+    setBackupMsg(summary);
+    setImportErrors(res.errors);
+    showToast(summary);
+  }
+
+  async function onUnlock() {
+    const res = await window.clipvault.unlockVault(unlockDraft);
+    if (res?.ok) {
+      setUnlockDraft("");
+      setUnlockMsg("");
+      setTimeout(() => inputRef.current?.focus(), 40);
+    } else {
+      setUnlockMsg(res?.reason || "Failed");
+    }
+  }
+
+  async function onEnableVault() {
+    if (vaultPass !== vaultPass2) {
+      setVaultMsg(t("passMismatch"));
+      return;
+    }
+    setVaultBusy(true);
+    setVaultMsg(t("vaultWorking"));
+    try {
+      const res = await window.clipvault.enableVault(vaultPass);
+      if (!res?.ok) {
+        setVaultMsg(res?.reason || "Failed");
+        return;
+      }
+      setVaultPass("");
+      setVaultPass2("");
+      setVaultMsg("");
+      showToast(t("vaultOn"));
+    } finally {
+      setVaultBusy(false);
+    }
+  }
+
+  async function onDisableVault() {
+    setVaultBusy(true);
+    setVaultMsg(t("vaultWorking"));
+    try {
+      const res = await window.clipvault.disableVault(vaultPass);
+      if (!res?.ok) {
+        setVaultMsg(res?.reason || "Failed");
+        return;
+      }
+      setVaultPass("");
+      setVaultMsg("");
+      showToast(t("vaultOff"));
+    } finally {
+      setVaultBusy(false);
+    }
+  }
+
+  async function saveShortcut() {
+    setShortcutMsg("Saving…");
+    const res = await window.clipvault.setPopupShortcut(shortcutDraft);
+    if (res?.ok) {
+      setShortcutMsg("Saved");
+      showToast("Shortcut updated");
+    } else {
+      setShortcutMsg(res?.reason || "Failed");
+    }
+  }
+
+  async function saveTheme(next: Theme) {
+    setTheme(next);
+    await persistSettings({ theme: next });
+    showToast(t("themeSaved"));
+  }
+
+  async function onChangeLang(next: Lang) {
+    setLang(next);
+    await persistSettings({ lang: next });
+    showToast("Saved");
+  }
+
+  /* ------------------ keyboard ------------------ */
+
+  useEffect(() => {
+    const onKeyDown = async (e: KeyboardEvent) => {
+      // recording shortcut: do not close popup
+      if (recording) {
+        e.preventDefault();
+        e.stopPropagation();
+
+        if (e.key === "Escape") {
+          setRecording(false);
+          setShortcutMsg("");
+          return;
+        }
+
+        const accel = keyEventToAccelerator(e);
+        if (!accel) return;
+
+        setShortcutDraft(accel);
+        setRecording(false);
+        setShortcutMsg(`${t("captured")}: ${accel}`);
+        return;
+      }
+
+      // locked: only Esc (hide); the passphrase field handles Enter itself
+      if (vault.locked) {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          await window.clipvault.hidePopup();
+        }
+        return;
+      }
+
+      // modal: Esc closes modal only
+      if (modal !== "none") {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          closeModal();
+        }
+        return;
+      }
+
+      // color picker open: Esc does nothing
+      if (e.key === "Escape" && colorPickerOpen) {
+        e.preventDefault();
+        return;
+      }
+
+      // settings open: Esc closes settings only
+      if (settingsOpen) {
+        if (e.key === "Escape") {
+          e.preventDefault();
           setSettingsOpen(false);
         }
         return;
       }
 
-      // normal: Esc hides popup
+      // normal: Esc drops a multi-selection first, then hides popup
       if (e.key === "Escape") {
         e.preventDefault();
-        await window.clipvault.hidePopup();
+        if (picked.size) setPicked(new Set());
+        else await window.clipvault.hidePopup();
+        return;
+      }
+
+      // Alt+Up/Down moves the selected clip within the pinned clips (or the open collection)
+      if (e.altKey && (e.key === "ArrowUp" || e.key === "ArrowDown")) {
+        e.preventDefault();
+        const next = selectedIndex + (e.key === "ArrowUp" ? -1 : 1);
+        const it = visible[selectedIndex];
+        const over = visible[next];
+        if (it && over && (await moveRow(it.id, over.id))) {
+          scrollToSelection.current = true;
+          setSelectedIndex(next);
+        }
         return;
       }
 
       if (e.key === "ArrowDown") {
         e.preventDefault();
-        setSelectedIndex((i) => Math.min(i + 1, Math.max(0, visible.length - 1)));
+        scrollToSelection.current = true;
+        let next = Math.min(selectedIndex + 1, Math.max(0, visible.length - 1));
+        if (selectedIndex >= visible.length - 1 && nextCursorRef.current) {
+          if ((await loadMore()) === 0) return;
+          next = selectedIndex + 1;
+        }
+        if (e.shiftKey) extendPick(next);
+        setSelectedIndex(next);
         return;
       }
 
       if (e.key === "ArrowUp") {
         e.preventDefault();
-        setSelectedIndex((i) => Math.max(i - 1, 0));
+        scrollToSelection.current = true;
+        const next = Math.max(selectedIndex - 1, 0);
+        if (e.shiftKey) extendPick(next);
+        setSelectedIndex(next);
         return;
       }
 
       if (e.key === "Enter") {
         e.preventDefault();
         const it = visible[selectedIndex];
-        if (it) await copyItem(it);
+        if (it) await copyItem(it, enterPastes);
         return;
       }
 
@@ -735,7 +2448,19 @@ useEffect(() => {
 
     window.addEventListener("keydown", onKeyDown, true);
     return () => window.removeEventListener("keydown", onKeyDown, true);
-  }, [recording, modal, settingsOpen, colorPickerOpen, selectedIndex, visible]);
+  }, [
+    recording,
+    modal,
+    settingsOpen,
+    colorPickerOpen,
+    selectedIndex,
+    visible,
+    vault.locked,
+    enterPastes,
+    picked,
+    activeCollection,
+    query,
+  ]);
 
   return (
     <div className="cv-shell">
@@ -771,16 +2496,47 @@ useEffect(() => {
           </div>
         </div>
 
-        <div className="cv-actions cv-nodrag">
-          <button className="cv-btn cv-nodrag" onClick={() => setSettingsOpen((v) => !v)}>
-            {t("settings")}
-          </button>
-          <button className="cv-btn danger cv-nodrag" onClick={onClearAll}>
-            {t("clearAll")}
-          </button>
-        </div>
+        {!vault.locked && (
+          <div className="cv-actions cv-nodrag">
+            {vault.enabled && (
+              <button className="cv-btn cv-nodrag" onClick={() => window.clipvault.lockVault()}>
+                {t("lock")}
+              </button>
+            )}
+            <button className="cv-btn cv-nodrag" onClick={() => setSettingsOpen((v) => !v)}>
+              {t("settings")}
+            </button>
+            <button className="cv-btn danger cv-nodrag" onClick={openClearAllModal}>
+              {t("clearAll")}
+            </button>
+          </div>
+        )}
       </div>
 
+      {vault.locked ? (
+        <div className="cv-lock cv-nodrag">
+          <div className="cv-lock-title">{t("lockedTitle")}</div>
+          <div className="cv-muted">{t("lockedHelp")}</div>
+          <div className="cv-row">
+            <input
+              className="cv-input cv-nodrag"
+              type="password"
+              value={unlockDraft}
+              onChange={(e) => setUnlockDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") onUnlock();
+              }}
+              placeholder={t("passphrase")}
+              autoFocus
+            />
+            <button className="cv-btn cv-nodrag" onClick={onUnlock}>
+              {t("unlock")}
+            </button>
+          </div>
+          {unlockMsg && <div className="cv-search-error">{unlockMsg}</div>}
+        </div>
+      ) : (
+      <>
       <div className="cv-search cv-nodrag">
         <input
           ref={inputRef}
@@ -792,6 +2548,7 @@ useEffect(() => {
           onFocus={() => setIsTypingSearch(true)}
           onBlur={() => setIsTypingSearch(false)}
         />
+        {searchError && <div className="cv-search-error">{searchError}</div>}
       </div>
 
       {settingsOpen && (
@@ -881,53 +2638,593 @@ useEffect(() => {
                 }}
               />
             </div>
-          </div>
-
-          {/* System */}
-          <div className="cv-section">
-            <div className="cv-section-title">{t("system")}</div>
 
             <div className="cv-row">
-              <div className="cv-label">{t("startAtLogin")}</div>
+              <div className="cv-label">{t("enterPastes")}</div>
               <input
                 className="cv-nodrag"
                 type="checkbox"
-                checked={startAtLogin}
+                checked={enterPastes}
                 onChange={async (e) => {
                   const v = e.target.checked;
-                  setStartAtLogin(v);
-                  await window.clipvault.setStartAtLogin(v);
-                  await persistSettings({ startAtLogin: v });
+                  setEnterPastes(v);
+                  await persistSettings({ enterPastes: v });
                 }}
               />
             </div>
+            {enterPastes && pasteSupport?.reason ? <div className="cv-search-error">{pasteSupport.reason}</div> : null}
+            {enterPastes && pasteSupport?.name === "osascript" ? <div className="cv-muted">{t("enterPastesMac")}</div> : null}
+
+            <div className="cv-row">
+              <div className="cv-label">{t("dedupe")}</div>
+              <select
+                className="cv-input cv-nodrag"
+                value={dedupeMode}
+                onChange={async (e) => {
+                  const v = e.target.value as DedupeMode;
+                  setDedupeMode(v);
+                  await persistSettings({ dedupeMode: v });
+                }}
+              >
+                <option value="off">{t("dedupeOff")}</option>
+                <option value="consecutive">{t("dedupeConsecutive")}</option>
+                <option value="history">{t("dedupeHistory")}</option>
+              </select>
+            </div>
           </div>
 
-          {/* Theme */}
+          {/* Storage */}
           <div className="cv-section">
-            <div className="cv-section-title">{t("theme")}</div>
-            <div className="cv-muted" style={{ marginBottom: 6 }}>
-              {t("pickColors")}
+            <div className="cv-section-title">{t("storage")}</div>
+
+            <div className="cv-row">
+              <div className="cv-label">{t("usage")}</div>
+              <div className="cv-muted">
+                {storageInfo
+                  ? `${storageInfo.items} ${t("clipsUnit")} · ${formatBytes(storageInfo.clipBytes)} (DB ${formatBytes(storageInfo.dbBytes)})`
+                  : "…"}
+              </div>
             </div>
 
-            <div className="cv-grid">
-              {/* <ColorRowHex
-                label={t("accent")}
-                value={theme.accent}
-                onChange={(v) => saveTheme({ ...theme, accent: v })}
-                onPickerOpenChange={setColorPickerOpen}
-              /> */}
-              <ColorRowHex
-                label={t("danger")}
-                value={theme.danger}
-                onChange={(v) => saveTheme({ ...theme, danger: v })}
-                onPickerOpenChange={setColorPickerOpen}
-              />
-              <ColorRowHex
-  label={t("background")}
-  value={theme.bg}
-  onChange={(v) => saveTheme({ ...theme, bg: v })}
-  onPickerOpenChange={setColorPickerOpen}
+            {(
+              [
+                ["maxItems", 1_000_000],
+                ["maxAgeDays", 3650],
+                ["maxStorageMb", 100_000],
+                ["trashDays", 3650],
+              ] as const
+            ).map(([key, max]) => (
+              <div className="cv-row" key={key}>
+                <div className="cv-label">{t(key)}</div>
+                <input
+                  className="cv-input cv-nodrag"
+                  type="number"
+                  min={0}
+                  max={max}
+                  value={retention[key]}
+                  onChange={(e) => {
+                    const v = Math.max(0, Math.min(max, Math.floor(Number(e.target.value || 0))));
+                    saveRetention({ ...retention, [key]: v });
+                  }}
+                />
+              </div>
+            ))}
+
+            <div className="cv-muted">{t("retentionHelp")}</div>
+
+            <div className="cv-row">
+              <div className="cv-muted" style={{ flex: 1 }}>
+                {`${t("wouldRemove")}: ${storageInfo?.wouldRemove.items ?? 0} ${t("clipsUnit")}`}
+                {` (${formatBytes(storageInfo?.wouldRemove.bytes ?? 0)})`}
+              </div>
+              <button
+                className="cv-btn cv-nodrag"
+                disabled={!storageInfo?.wouldRemove.items}
+                onClick={onPruneNow}
+              >
+                {t("pruneNow")}
+              </button>
+            </div>
+          </div>
+
+          {/* Sensitive content */}
+          <div className="cv-section">
+            <div className="cv-section-title">{t("sensitiveContent")}</div>
+
+            <div className="cv-row">
+              <div className="cv-label">{t("sensitiveEnabled")}</div>
+              <input
+                className="cv-nodrag"
+                type="checkbox"
+                checked={sensitive.enabled}
+                onChange={(e) => saveSensitive({ ...sensitive, enabled: e.target.checked })}
+              />
+            </div>
+
+            <div className="cv-row">
+              <div className="cv-label">{t("sensitiveAction")}</div>
+              <select
+                className="cv-input cv-nodrag"
+                value={sensitive.action}
+                onChange={(e) => saveSensitive({ ...sensitive, action: e.target.value as SensitivePolicy["action"] })}
+              >
+                <option value="drop">{t("sensitiveDrop")}</option>
+                <option value="mask">{t("sensitiveMask")}</option>
+                <option value="expire">{t("sensitiveExpire")}</option>
+              </select>
+            </div>
+
+            {sensitive.action === "expire" && (
+              <div className="cv-row">
+                <div className="cv-label">{t("expireAfter")}</div>
+                <input
+                  className="cv-input cv-nodrag"
+                  type="number"
+                  min={1}
+                  max={1440}
+                  value={sensitive.expireMinutes}
+                  onChange={(e) => {
+                    const v = Math.max(1, Math.min(1440, Math.floor(Number(e.target.value || 1))));
+                    saveSensitive({ ...sensitive, expireMinutes: v });
+                  }}
+                />
+              </div>
+            )}
+
+            <div className="cv-muted">{t("sensitiveHelp")}</div>
+
+            <div className="cv-label" style={{ marginTop: 8 }}>
+              {t("detectors")}
+            </div>
+            {SENSITIVE_DETECTORS.map((id) => (
+              <div className="cv-row" key={id}>
+                <div className="cv-label">{t(`det_${id}`)}</div>
+                <input
+                  className="cv-nodrag"
+                  type="checkbox"
+                  checked={sensitive.detectors.includes(id)}
+                  onChange={(e) => {
+                    const detectors = e.target.checked
+                      ? [...sensitive.detectors, id]
+                      : sensitive.detectors.filter((d) => d !== id);
+                    saveSensitive({ ...sensitive, detectors });
+                  }}
+                />
+              </div>
+            ))}
+
+            <div className="cv-label" style={{ marginTop: 8 }}>
+              {t("customPatterns")}
+            </div>
+            <textarea
+              className="cv-textarea cv-nodrag"
+              rows={3}
+              value={patternsDraft}
+              spellCheck={false}
+              onChange={(e) => setPatternsDraft(e.target.value)}
+              onBlur={() => {
+                const patterns = patternsDraft
+                  .split("\n")
+                  .map((l) => l.trim())
+                  .filter(Boolean);
+                saveSensitive({ ...sensitive, patterns });
+              }}
+            />
+            {invalidPatterns.length > 0 && (
+              <ul className="cv-error-list">
+                {invalidPatterns.map(([p, err]) => (
+                  <li key={p}>
+                    {t("invalidPattern")} {p}: {err}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Don't record */}
+          <div className="cv-section">
+            <div className="cv-section-title">{t("exclusions")}</div>
+            <div className="cv-muted">{t("exclusionsHelp")}</div>
+
+            {exclusions.map((rule) => {
+              const err = exclusionError(rule);
+              const hits = exclusionTest?.ok ? exclusionTest.perRule[rule.id] ?? 0 : null;
+
+              return (
+                <React.Fragment key={rule.id}>
+                  <div className="cv-row">
+                    <input
+                      className="cv-nodrag"
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateExclusion(rule.id, { enabled: e.target.checked })}
+                    />
+                    <select
+                      className="cv-input cv-nodrag"
+                      value={rule.kind}
+                      onChange={(e) => updateExclusion(rule.id, { kind: e.target.value as ExclusionKind })}
+                    >
+                      {EXCLUSION_KINDS.map((k) => (
+                        <option key={k} value={k}>
+                          {t(`ex_${k}`)}
+                        </option>
+                      ))}
+                    </select>
+
+                    {rule.kind === "regex" && (
+                      <>
+                        <input
+                          className="cv-input cv-nodrag"
+                          value={rule.pattern ?? ""}
+                          spellCheck={false}
+                          onChange={(e) => updateExclusion(rule.id, { pattern: e.target.value })}
+                          placeholder="^\d{6}$"
+                        />
+                        <label className="cv-muted" title={t("ignoreCase")}>
+                          <input
+                            className="cv-nodrag"
+                            type="checkbox"
+                            checked={!!rule.ignoreCase}
+                            onChange={(e) => updateExclusion(rule.id, { ignoreCase: e.target.checked })}
+                          />
+                          Aa
+                        </label>
+                      </>
+                    )}
+                    {(rule.kind === "minLength" || rule.kind === "maxLength") && (
+                      <>
+                        <input
+                          className="cv-input cv-nodrag"
+                          type="number"
+                          min={1}
+                          value={rule.length ?? 0}
+                          onChange={(e) =>
+                            updateExclusion(rule.id, { length: Math.max(0, Math.floor(Number(e.target.value || 0))) })
+                          }
+                        />
+                        <span className="cv-muted">{t("charsUnit")}</span>
+                      </>
+                    )}
+
+                    {hits !== null && <span className="cv-badge">{hits}</span>}
+                    <button
+                      className="cv-icon danger cv-nodrag"
+                      onClick={() => saveExclusions(exclusions.filter((r) => r.id !== rule.id))}
+                    >
+                      {t("removeRule")}
+                    </button>
+                  </div>
+                  {err && <div className="cv-search-error">{err}</div>}
+                </React.Fragment>
+              );
+            })}
+
+            <div className="cv-row">
+              <button
+                className="cv-btn cv-nodrag"
+                onClick={() =>
+                  saveExclusions([
+                    ...exclusions,
+                    { id: crypto.randomUUID(), kind: "regex", enabled: true, pattern: "", ignoreCase: false },
+                  ])
+                }
+              >
+                {t("addRule")}
+              </button>
+              <button className="cv-btn cv-nodrag" disabled={!exclusions.length} onClick={onTestExclusions}>
+                {t("testRules")}
+              </button>
+            </div>
+
+            {exclusionTest &&
+              (exclusionTest.ok ? (
+                <>
+                  <div className="cv-muted">
+                    {t("testSummary")
+                      .replace("{matched}", String(exclusionTest.matched))
+                      .replace("{scanned}", String(exclusionTest.scanned))}
+                  </div>
+                  {exclusionTest.samples.length > 0 && (
+                    <ul className="cv-sample-list">
+                      {exclusionTest.samples.map((smp) => (
+                        <li key={smp.id}>{smp.text}</li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              ) : (
+                <div className="cv-search-error">{exclusionTest.reason || "Failed"}</div>
+              ))}
+          </div>
+
+          {/* Tags */}
+          <div className="cv-section">
+            <div className="cv-section-title">{t("tagManager")}</div>
+            <div className="cv-muted">{t("tagManagerHelp")}</div>
+
+            {allTags.length === 0 ? (
+              <div className="cv-muted">{t("noTags")}</div>
+            ) : (
+              allTags.map((tg) => {
+                const draft = tagDrafts[tg.name] ?? tg.name;
+                return (
+                  <div key={tg.name} className="cv-row">
+                    <input
+                      className="cv-nodrag"
+                      type="checkbox"
+                      checked={tagsPicked.has(tg.name)}
+                      onChange={(e) =>
+                        setTagsPicked((prev) => {
+                          const next = new Set(prev);
+                          if (e.target.checked) next.add(tg.name);
+                          else next.delete(tg.name);
+                          return next;
+                        })
+                      }
+                    />
+                    <input
+                      className="cv-input cv-nodrag"
+                      value={draft}
+                      onChange={(e) => setTagDrafts((d) => ({ ...d, [tg.name]: e.target.value }))}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") onRenameTag(tg.name);
+                      }}
+                    />
+                    <span className="cv-badge">{tg.count}</span>
+                    <button
+                      className="cv-icon cv-nodrag"
+                      disabled={!draft.trim() || draft.trim() === tg.name}
+                      onClick={() => onRenameTag(tg.name)}
+                    >
+                      {t("rename")}
+                    </button>
+                    <button className="cv-icon danger cv-nodrag" onClick={() => onDeleteTag(tg.name)}>
+                      {t("delete")}
+                    </button>
+                  </div>
+                );
+              })
+            )}
+
+            {tagsPicked.size > 1 && (
+              <div className="cv-row">
+                <span className="cv-muted">{t("mergeTagsInto").replace("{n}", String(tagsPicked.size))}</span>
+                <input
+                  className="cv-input cv-nodrag"
+                  value={mergeTagsInto}
+                  placeholder={[...tagsPicked][0]}
+                  onChange={(e) => setMergeTagsInto(e.target.value)}
+                />
+                <button className="cv-btn cv-nodrag" onClick={onMergeTags}>
+                  {t("merge")}
+                </button>
+              </div>
+            )}
+            {tagsMsg && <div className="cv-muted">{tagsMsg}</div>}
+          </div>
+
+          {/* Snippets */}
+          <div className="cv-section">
+            <div className="cv-section-title">{t("snippets")}</div>
+            <div className="cv-muted">{t("snippetsHelp")}</div>
+
+            {snippets.length === 0 && <div className="cv-muted">{t("noSnippets")}</div>}
+            {snippets.map((sn) => (
+              <div key={sn.id} className="cv-row">
+                <span className="cv-snippet-name">{sn.name}</span>
+                <span className="cv-muted cv-snippet-preview">{snippetPreview(sn.body)}</span>
+                <button className="cv-icon cv-nodrag" onClick={() => openSnippetModal(sn)}>
+                  {t("edit")}
+                </button>
+                <button className="cv-icon danger cv-nodrag" onClick={() => onDeleteSnippet(sn)}>
+                  {t("delete")}
+                </button>
+              </div>
+            ))}
+
+            <div className="cv-row">
+              <button className="cv-btn cv-nodrag" onClick={() => openSnippetModal(null)}>
+                {t("newSnippet")}
+              </button>
+            </div>
+          </div>
+
+          {/* Backup */}
+          <div className="cv-section">
+            <div className="cv-section-title">{t("backup")}</div>
+
+            <div className="cv-row">
+              <button className="cv-btn cv-nodrag" onClick={onExportBackup}>
+                {t("exportBackup")}
+              </button>
+            </div>
+
+            <div className="cv-row">
+              <select
+                className="cv-input cv-nodrag"
+                value={importMode}
+                onChange={(e) => setImportMode(e.target.value as ImportMode)}
+              >
+                <option value="merge">{t("importMerge")}</option>
+                <option value="replace">{t("importReplace")}</option>
+              </select>
+              <button className="cv-btn cv-nodrag" onClick={onImportBackup}>
+                {t("importBackup")}
+              </button>
+            </div>
+
+            {backupMsg && <div className="cv-muted">{backupMsg}</div>}
+            {importErrors.length > 0 && (
+              <ul className="cv-error-list">
+                {importErrors.slice(0, 50).map((er) => (
+                  <li key={er.index}>
+                    #{er.index + 1}
+                    {er.id ? ` (${er.id})` : ""}: {er.reason}
+                  </li>
+                ))}
+                {importErrors.length > 50 && <li>… +{importErrors.length - 50}</li>}
+              </ul>
+            )}
+          </div>
+
+          {/* Encryption */}
+          <div className="cv-section">
+            <div className="cv-section-title">{t("encryption")}</div>
+
+            {vault.enabled ? (
+              <>
+                <div className="cv-row">
+                  <div className="cv-label">{t("autoLock")}</div>
+                  <select
+                    className="cv-input cv-nodrag"
+                    value={autoLockMinutes}
+                    onChange={async (e) => {
+                      const v = Number(e.target.value);
+                      setAutoLockMinutes(v);
+                      await persistSettings({ vaultAutoLockMinutes: v });
+                    }}
+                  >
+                    {AUTO_LOCK_CHOICES.map((m) => (
+                      <option key={m} value={m}>
+                        {m ? `${m} ${t("minutesUnit")}` : t("never")}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="cv-row">
+                  <input
+                    className="cv-input cv-nodrag"
+                    type="password"
+                    value={vaultPass}
+                    onChange={(e) => setVaultPass(e.target.value)}
+                    placeholder={t("passphrase")}
+                  />
+                  <button className="cv-btn danger cv-nodrag" disabled={vaultBusy || !vaultPass} onClick={onDisableVault}>
+                    {t("vaultDisable")}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="cv-muted">{t("vaultHelp")}</div>
+
+                <div className="cv-row">
+                  <input
+                    className="cv-input cv-nodrag"
+                    type="password"
+                    value={vaultPass}
+                    onChange={(e) => setVaultPass(e.target.value)}
+                    placeholder={t("passphrase")}
+                  />
+                </div>
+
+                <div className="cv-row">
+                  <input
+                    className="cv-input cv-nodrag"
+                    type="password"
+                    value={vaultPass2}
+                    onChange={(e) => setVaultPass2(e.target.value)}
+                    placeholder={t("confirmPassphrase")}
+                  />
+                  <button className="cv-btn cv-nodrag" disabled={vaultBusy || !vaultPass} onClick={onEnableVault}>
+                    {t("vaultEnable")}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {vaultMsg && <div className="cv-muted">{vaultMsg}</div>}
+          </div>
+
+          {/* System */}
+          <div className="cv-section">
+            <div className="cv-section-title">{t("system")}</div>
+
+            <div className="cv-row">
+              <div className="cv-label">{t("startAtLogin")}</div>
+              <input
+                className="cv-nodrag"
+                type="checkbox"
+                checked={startAtLogin}
+                onChange={async (e) => {
+                  const v = e.target.checked;
+                  setStartAtLogin(v);
+                  await window.clipvault.setStartAtLogin(v);
+                  await persistSettings({ startAtLogin: v });
+                }}
+              />
+            </div>
+          </div>
+
+          {/* Color labels */}
+          <div className="cv-section">
+            <div className="cv-section-title">{t("colorLabels")}</div>
+            <div className="cv-muted">{t("colorLabelsHelp")}</div>
+
+            <div className="cv-grid">
+              {colorLabels.map((label, i) => (
+                <ColorRowHex
+                  key={i}
+                  label={
+                    <div style={{ display: "flex", gap: 4 }}>
+                      <input
+                        className="cv-input cv-nodrag"
+                        value={label.name}
+                        placeholder={t("labelName")}
+                        onChange={(e) => updateColorLabel(i, { name: e.target.value })}
+                      />
+                      <button
+                        className="cv-icon danger cv-nodrag"
+                        title={t("removeLabel")}
+                        onClick={() => saveColorLabels(colorLabels.filter((_, j) => j !== i))}
+                      >
+                        ×
+                      </button>
+                    </div>
+                  }
+                  value={label.color}
+                  onChange={(v) => updateColorLabel(i, { color: v.toLowerCase() })}
+                  onPickerOpenChange={setColorPickerOpen}
+                />
+              ))}
+            </div>
+
+            <div className="cv-row">
+              <button
+                className="cv-btn cv-nodrag"
+                onClick={() => saveColorLabels([...colorLabels, { color: "#888888", name: "" }])}
+              >
+                {t("addLabel")}
+              </button>
+            </div>
+          </div>
+
+          {/* Theme */}
+          <div className="cv-section">
+            <div className="cv-section-title">{t("theme")}</div>
+            <div className="cv-muted" style={{ marginBottom: 6 }}>
+              {t("pickColors")}
+            </div>
+
+            <div className="cv-grid">
+              {/* <ColorRowHex
+                label={t("accent")}
+                value={theme.accent}
+                onChange={(v) => saveTheme({ ...theme, accent: v })}
+                onPickerOpenChange={setColorPickerOpen}
+              /> */}
+              <ColorRowHex
+                label={t("danger")}
+                value={theme.danger}
+                onChange={(v) => saveTheme({ ...theme, danger: v })}
+                onPickerOpenChange={setColorPickerOpen}
+              />
+              <ColorRowHex
+  label={t("background")}
+  value={theme.bg}
+  onChange={(v) => saveTheme({ ...theme, bg: v })}
+  onPickerOpenChange={setColorPickerOpen}
 />
             </div>
           </div>
@@ -972,143 +3269,527 @@ useEffect(() => {
         </div>
       )}
 
-      <div className="cv-list cv-nodrag">
-        {visible.length === 0 ? (
-          <div className="cv-empty">{t("noItems")}</div>
-        ) : (
-          visible.map((item, idx) => {
-            const borderColor = item.borderColor ?? theme.itemBorder;
-            const bgColor = item.bgColor ?? theme.itemBg;
-
-            return (
-              <div
-                key={item.id}
-                className={"cv-item cv-nodrag " + (idx === selectedIndex ? "selected" : "")}
-                onMouseEnter={() => setSelectedIndex(idx)}
-                style={{ borderColor, background: bgColor }}
-              >
-                {item.kind === "image" ? (
-                  item.imageDataUrl?.startsWith("data:image/") ? (
-                    <div>
-                      <img className="cv-img cv-nodrag" src={item.imageDataUrl} alt="clipboard" />
-                      <div className="cv-item-text" style={{ marginTop: 8, color: theme.itemText }}>
-                        {item.imageName ?? ""}
-                      </div>
-                    </div>
-                  ) : (
-                    <div className="cv-item-text" style={{ color: theme.itemText }}>
-                      {t("imageInvalid")}
-                    </div>
-                  )
-                ) : (
-                  <div className="cv-item-text" style={{ color: theme.itemText }}>
-                    {item.text ?? ""}
-                  </div>
-                )}
-
-                <div className="cv-item-meta">
-                  <div className="cv-meta-left">
-                    <div className="cv-muted" style={{ marginBottom: 6, color: theme.itemMuted }}>
-                      {t("created")}: {formatDateTime(item.createdAt)}
-                    </div>
-
-                    {item.pinned ? <span className="cv-badge">{t("pinned")}</span> : null}
-
-                    {(item.tags ?? []).map((tg) => (
-                      <span key={tg} className="cv-tag">
-                        {tg}
-                      </span>
-                    ))}
-                  </div>
+      <DndContext
+        sensors={dragSensors}
+        collisionDetection={pointerWithin}
+        onDragStart={onDragStart}
+        onDragEnd={onDragEnd}
+        onDragCancel={() => setDragId(null)}
+      >
+      <div className="cv-tabs cv-nodrag" title={t("collectionHint")}>
+        <button
+          className={"cv-tab cv-nodrag" + (activeCollection || inTrash ? "" : " active")}
+          onClick={() => selectCollection(null)}
+        >
+          {t("all")}
+        </button>
+        {collections.map((k) => (
+          <CollectionTab
+            key={k.id}
+            collection={k}
+            active={k.id === activeCollection}
+            onSelect={() => selectCollection(k.id)}
+          />
+        ))}
+        <button className="cv-tab cv-nodrag" title={t("newCollection")} onClick={() => openCollectionModal(false)}>
+          +
+        </button>
+        <button className={"cv-tab cv-nodrag" + (inTrash ? " active" : "")} onClick={openTrash}>
+          {t("trash")} {trashCount ? <span className="cv-muted">{trashCount}</span> : null}
+        </button>
+        {inTrash && (
+          <button className="cv-icon danger cv-nodrag" disabled={!trashCount} onClick={onEmptyTrash}>
+            {t("emptyTrash")}
+          </button>
+        )}
+        {activeCollection && (
+          <>
+            <button className="cv-icon cv-nodrag" onClick={() => openCollectionModal(true)}>
+              {t("renameCollection")}
+            </button>
+            <button className="cv-icon danger cv-nodrag" onClick={onDeleteCollection}>
+              {t("deleteCollection")}
+            </button>
+          </>
+        )}
+        <div className="cv-label-filters">
+          {colorLabels.map((label, i) => (
+            <button
+              key={i}
+              className={"cv-swatch cv-nodrag" + (labelFilterRe(label).test(query.trim()) ? " active" : "")}
+              style={{ background: label.color }}
+              title={`${t("filterByLabel")}: ${label.name.trim() || label.color}`}
+              onClick={() => toggleLabelFilter(label)}
+            />
+          ))}
+        </div>
+      </div>
 
-                  <div className="cv-meta-right cv-nodrag">
-                    <button
-                      className="cv-icon cv-nodrag"
-                      onMouseDown={(e) => e.stopPropagation()}
-                      onClick={async (e) => {
-                        e.stopPropagation();
-                        await copyItem(item);
-                      }}
-                    >
-                      {t("copy")}
-                    </button>
+      {picked.size > 0 && inTrash && (
+        <div className="cv-selection-bar cv-nodrag">
+          <span className="cv-muted">{t("nSelected").replace("{n}", String(pickedItems.length))}</span>
+          <button className="cv-icon cv-nodrag" onClick={() => onRestore(pickedItems.map((it) => it.id))}>
+            {t("restore")}
+          </button>
+          <button className="cv-icon danger cv-nodrag" onClick={() => onPurge(pickedItems.map((it) => it.id))}>
+            {t("purge")}
+          </button>
+          <button className="cv-icon cv-nodrag" onClick={() => setPicked(new Set())}>
+            {t("clearSelection")}
+          </button>
+        </div>
+      )}
 
-                    <button
-                      className="cv-icon cv-nodrag"
-                      onMouseDown={(e) => e.stopPropagation()}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onTogglePin(item);
-                      }}
-                    >
-                      {item.pinned ? t("unpin") : t("pin")}
-                    </button>
+      {picked.size > 0 && !inTrash && (
+        <div className="cv-selection-bar cv-nodrag">
+          <span className="cv-muted">{t("nSelected").replace("{n}", String(pickedItems.length))}</span>
+          <button
+            className="cv-icon cv-nodrag"
+            disabled={pickedText.length < 2}
+            title={t("mergeNotText")}
+            onClick={openMergeModal}
+          >
+            {t("merge")}
+          </button>
+          <button className="cv-icon cv-nodrag" onClick={() => onBatchPin(true)}>
+            {t("pin")}
+          </button>
+          <button className="cv-icon cv-nodrag" onClick={() => onBatchPin(false)}>
+            {t("unpin")}
+          </button>
+          <button className="cv-icon cv-nodrag" onClick={openBulkTagsModal}>
+            {t("bulkTags")}
+          </button>
+          <button className="cv-icon cv-nodrag" onClick={onBatchExport}>
+            {t("exportSelection")}
+          </button>
+          <button className="cv-icon danger cv-nodrag" onClick={onBatchDelete}>
+            {t("delete")}
+          </button>
+          <button className="cv-icon cv-nodrag" onClick={() => setPicked(new Set())}>
+            {t("clearSelection")}
+          </button>
+        </div>
+      )}
 
-                    <button
-                      className="cv-icon cv-nodrag"
-                      onMouseDown={(e) => e.stopPropagation()}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        openTagsModal(item);
-                      }}
-                    >
-                      {t("tags")}
-                    </button>
+      {snippetMatches.length > 0 && (
+        <div className="cv-snippet-strip cv-nodrag">
+          {snippetMatches.map((sn) => (
+            <button
+              key={sn.id}
+              className="cv-snippet cv-nodrag"
+              title={sn.body}
+              onClick={() => onUseSnippet(sn)}
+            >
+              <span className="cv-snippet-name">{sn.name}</span>
+              <span className="cv-muted cv-snippet-preview">{snippetPreview(sn.body)}</span>
+            </button>
+          ))}
+        </div>
+      )}
 
-                    {item.kind === "text" ? (
-                      <button
-                        className="cv-icon cv-nodrag"
-                        onMouseDown={(e) => e.stopPropagation()}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          openEditTextModal(item);
+      <div className="cv-list cv-nodrag" ref={list.scrollRef}>
+        {visible.length === 0 ? (
+          searchError ? null : <div className="cv-empty">{query.trim() ? t("noMatches") : t("noItems")}</div>
+        ) : (
+          <>
+            <div style={{ height: list.padTop }} />
+            <SortableContext items={rowIds} strategy={verticalListSortingStrategy}>
+            {visible.slice(list.start, list.end).map((item, i) => {
+              const idx = list.start + i;
+              const borderColor = item.borderColor ?? theme.itemBorder;
+              const bgColor = item.bgColor ?? theme.itemBg;
+              const itemLabel = clipLabel(item, colorLabels);
+
+              return (
+                <DraggableRow
+                  key={item.id}
+                  id={item.id}
+                  reorder={reorderable || (pinnedReorderable && !!item.pinned && !!dragItem?.pinned)}
+                  measureRef={list.measureRef}
+                >
+                  <div
+                    className={
+                      "cv-item cv-nodrag " + (idx === selectedIndex ? "selected" : "") + (picked.has(item.id) ? " picked" : "")
+                    }
+                    onMouseEnter={() => setSelectedIndex(idx)}
+                    // Shift-click would otherwise select the page text
+                    onMouseDown={(e) => {
+                      if (e.shiftKey) e.preventDefault();
+                    }}
+                    onClick={(e) => onRowClick(e, idx)}
+                    style={{ borderColor, background: bgColor }}
+                  >
+                    {item.kind === "image" ? (
+                      item.thumbUrl ? (
+                        <div>
+                          <img
+                            className="cv-img cv-nodrag"
+                            src={item.thumbUrl}
+                            alt="clipboard"
+                            loading="lazy"
+                            title={t("preview")}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              openPreviewModal(item);
+                            }}
+                          />
+                          <div className="cv-item-text" style={{ marginTop: 8, color: theme.itemText }}>
+                            {item.snippet ? renderSnippet(item.snippet) : item.imageName ?? ""}
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="cv-item-text" style={{ color: theme.itemText }}>
+                          {t("imageInvalid")}
+                        </div>
+                      )
+                    ) : item.kind === "files" && !item.snippet ? (
+                      <ul className="cv-file-list" style={{ color: theme.itemText }}>
+                        {(item.files ?? []).slice(0, FILES_SHOWN).map((f) => {
+                          const { dir, name } = splitPath(f);
+                          return (
+                            <li key={f} title={f}>
+                              {name} <span className="cv-muted">{dir}</span>
+                            </li>
+                          );
+                        })}
+                        {(item.files?.length ?? 0) > FILES_SHOWN && (
+                          <li className="cv-muted">… +{(item.files?.length ?? 0) - FILES_SHOWN}</li>
+                        )}
+                      </ul>
+                    ) : item.preview && !revealed.has(item.id) ? (
+                      <div className="cv-item-text" style={{ color: theme.itemText }}>
+                        {item.preview}
+                      </div>
+                    ) : item.snippet ? (
+                      <div className="cv-item-text" style={{ color: theme.itemText }}>
+                        {renderSnippet(item.snippet)}
+                      </div>
+                    ) : item.language ? (
+                      <pre
+                        className="cv-item-text cv-item-code"
+                        style={{ color: theme.itemText }}
+                        dangerouslySetInnerHTML={{
+                          __html: highlightCode(
+                            item.contentType === "json" ? prettyJson(item.text ?? "") : headLines(item.text ?? "", CODE_LINES_SHOWN),
+                            item.language
+                          ),
                         }}
-                      >
-                        {t("edit")}
-                      </button>
+                      />
+                    ) : item.contentType === "json" ? (
+                      <pre className="cv-item-text cv-item-code" style={{ color: theme.itemText }}>
+                        {prettyJson(item.text ?? "")}
+                      </pre>
+                    ) : item.contentType === "code" ? (
+                      <pre className="cv-item-text cv-item-code" style={{ color: theme.itemText }}>
+                        {headLines(item.text ?? "", CODE_LINES_SHOWN)}
+                      </pre>
                     ) : (
-                      <button
-                        className="cv-icon cv-nodrag"
-                        onMouseDown={(e) => e.stopPropagation()}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          openRenameImageModal(item);
-                        }}
-                      >
-                        {t("rename")}
-                      </button>
+                      <div className="cv-item-text" style={{ color: theme.itemText }}>
+                        {item.contentType === "color" && (
+                          <span className="cv-swatch" style={{ background: (item.text ?? "").trim(), marginRight: 8 }} />
+                        )}
+                        {item.text ?? ""}
+                        {item.contentType === "url" && urlHost(item.text ?? "") && (
+                          <div className="cv-muted">{urlHost(item.text ?? "")}</div>
+                        )}
+                        {item.contentType === "timestamp" && (
+                          <div className="cv-muted">{formatDateTime(epochMs(item.text ?? ""))}</div>
+                        )}
+                      </div>
                     )}
 
-                    <button
-                      className="cv-icon danger cv-nodrag"
-                      onMouseDown={(e) => e.stopPropagation()}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onDelete(item);
-                      }}
-                    >
-                      {t("delete")}
-                    </button>
+                    <div className="cv-item-meta">
+                      <div className="cv-meta-left">
+                        <div className="cv-muted" style={{ marginBottom: 6, color: theme.itemMuted }}>
+                          {t("created")}: {formatDateTime(item.createdAt)}
+                          {item.deletedAt ? ` · ${t("deleted")}: ${formatDateTime(item.deletedAt)}` : ""}
+                        </div>
+
+                        {item.pinned ? <span className="cv-badge">{t("pinned")}</span> : null}
+                        {item.contentType ? <span className="cv-badge">{t(`type_${item.contentType}`)}</span> : null}
+                        {item.language ? <span className="cv-badge">{languageLabel(item.language)}</span> : null}
+                        {itemLabel?.name.trim() ? (
+                          <span className="cv-badge" style={{ borderColor: itemLabel.color, color: itemLabel.color }}>
+                            {itemLabel.name}
+                          </span>
+                        ) : null}
+                        {item.richFormats?.length ? (
+                          <span className="cv-badge" title={t("richText")}>
+                            {item.richFormats.map((f) => f.toUpperCase()).join(" · ")}
+                          </span>
+                        ) : null}
+                        {item.kind === "files" ? (
+                          <span className="cv-badge">{t("filesCount").replace("{n}", String(item.files?.length ?? 0))}</span>
+                        ) : null}
+                        {item.sensitive ? (
+                          <span className="cv-badge danger" title={item.sensitive.join(", ")}>
+                            {t("sensitive")}
+                          </span>
+                        ) : null}
+                        {item.expiresAt && !item.pinned ? (
+                          <span className="cv-badge">
+                            {t("expiresIn")} {minutesLeft(item.expiresAt)} {t("minutesUnit")}
+                          </span>
+                        ) : null}
+                        {item.useCount > 1 ? (
+                          <span className="cv-badge" title={`${t("uses")} ${item.useCount}×`}>
+                            ×{item.useCount}
+                          </span>
+                        ) : null}
+
+                        {(item.tags ?? []).map((tg) => (
+                          <span key={tg} className="cv-tag">
+                            {tg}
+                          </span>
+                        ))}
+                      </div>
+
+                      {inTrash ? (
+                        <div className="cv-meta-right cv-nodrag">
+                          <button
+                            className="cv-icon cv-nodrag"
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onRestore([item.id]);
+                            }}
+                          >
+                            {t("restore")}
+                          </button>
+                          <button
+                            className="cv-icon danger cv-nodrag"
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onPurge([item.id]);
+                            }}
+                          >
+                            {t("purge")}
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="cv-meta-right cv-nodrag">
+                          {item.preview ? (
+                            <button
+                              className="cv-icon cv-nodrag"
+                              onMouseDown={(e) => e.stopPropagation()}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleRevealed(item.id);
+                              }}
+                            >
+                              {revealed.has(item.id) ? t("hide") : t("reveal")}
+                            </button>
+                          ) : null}
+
+                          <button
+                            className="cv-icon cv-nodrag"
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={async (e) => {
+                              e.stopPropagation();
+                              await copyItem(item);
+                            }}
+                          >
+                            {t("copy")}
+                          </button>
+
+                          {item.contentType === "url" && /^https?:/i.test((item.text ?? "").trim()) ? (
+                            <button
+                              className="cv-icon cv-nodrag"
+                              title={item.text}
+                              onMouseDown={(e) => e.stopPropagation()}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onOpenUrl(item);
+                              }}
+                            >
+                              {t("openLink")}
+                            </button>
+                          ) : null}
+
+                          {item.language || item.contentType === "code" ? (
+                            <button
+                              className="cv-icon cv-nodrag"
+                              title={t("copyMarkdownHint")}
+                              onMouseDown={(e) => e.stopPropagation()}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                copyAsMarkdown(item);
+                              }}
+                            >
+                              {t("copyMarkdown")}
+                            </button>
+                          ) : null}
+
+                          <button
+                            className="cv-icon cv-nodrag"
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onTogglePin(item);
+                            }}
+                          >
+                            {item.pinned ? t("unpin") : t("pin")}
+                          </button>
+
+                          <button
+                            className="cv-icon cv-nodrag"
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              openTagsModal(item);
+                            }}
+                          >
+                            {t("tags")}
+                          </button>
+
+                          <button
+                            className="cv-icon cv-nodrag"
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              openColorsModal(item);
+                            }}
+                          >
+                            {t("color")}
+                          </button>
+
+                          {item.kind === "text" ? (
+                            <button
+                              className="cv-icon cv-nodrag"
+                              onMouseDown={(e) => e.stopPropagation()}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                openEditTextModal(item);
+                              }}
+                            >
+                              {t("edit")}
+                            </button>
+                          ) : null}
+
+                          {item.kind === "text" || item.kind === "rich" ? (
+                            <button
+                              className="cv-icon cv-nodrag"
+                              onMouseDown={(e) => e.stopPropagation()}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                openTransformModal(item);
+                              }}
+                            >
+                              {t("copyAs")}
+                            </button>
+                          ) : null}
+
+                          {item.kind === "text" || item.kind === "rich" ? (
+                            <button
+                              className="cv-icon cv-nodrag"
+                              title={t("excludeLike")}
+                              onMouseDown={(e) => e.stopPropagation()}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onExcludeLike(item);
+                              }}
+                            >
+                              {t("excludeLike")}
+                            </button>
+                          ) : null}
+
+                          {item.kind === "image" ? (
+                            <button
+                              className="cv-icon cv-nodrag"
+                              onMouseDown={(e) => e.stopPropagation()}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                openRenameImageModal(item);
+                              }}
+                            >
+                              {t("rename")}
+                            </button>
+                          ) : null}
+
+                          {activeCollection ? (
+                            <button
+                              className="cv-icon cv-nodrag"
+                              onMouseDown={(e) => e.stopPropagation()}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onRemoveFromCollection(item);
+                              }}
+                            >
+                              {t("removeFromCollection")}
+                            </button>
+                          ) : null}
+
+                          <button
+                            className="cv-icon danger cv-nodrag"
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onDelete(item);
+                            }}
+                          >
+                            {t("delete")}
+                          </button>
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </div>
-            );
-          })
+                </DraggableRow>
+              );
+            })}
+            </SortableContext>
+            <div style={{ height: list.padBottom }} />
+          </>
         )}
       </div>
 
+      <DragOverlay dropAnimation={null}>
+        {dragItem ? (
+          <div className="cv-drag-chip">
+            {picked.has(dragItem.id) && pickedItems.length > 1
+              ? t("nSelected").replace("{n}", String(pickedItems.length))
+              : dragItem.kind === "image"
+                ? dragItem.imageName || t("imageKind")
+                : (dragItem.preview ?? dragItem.text ?? "").slice(0, 80)}
+          </div>
+        ) : null}
+      </DragOverlay>
+      </DndContext>
+      </>
+      )}
+
       <div className="cv-footer cv-nodrag">
-        <span>↑/↓ navigate • Enter copy • Esc close</span>
+        <span>
+          ↑/↓ navigate • Shift+↑/↓ or Shift/Ctrl-click select • Alt+↑/↓ reorder • Enter {enterPastes ? "paste" : "copy"} •
+          Esc close
+        </span>
         <span>Drag anywhere on glass to move</span>
       </div>
 
-      {toast && <div className="cv-toast">{toast}</div>}
+      {toast && (
+        <div className={"cv-toast" + (toast.undo ? " cv-nodrag has-action" : "")}>
+          {toast.msg}
+          {toast.undo && (
+            <button
+              className="cv-toast-action cv-nodrag"
+              onClick={() => {
+                const undo = toast.undo;
+                setToast(null);
+                undo?.();
+              }}
+            >
+              {t("undo")}
+            </button>
+          )}
+        </div>
+      )}
 
       {modal !== "none" && (
         <div className="cv-modal-backdrop cv-nodrag" onMouseDown={closeModal}>
           <div className="cv-modal cv-nodrag" onMouseDown={(e) => e.stopPropagation()}>
             <div className="cv-modal-title">
-              {modal === "tags" ? t("editTagsTitle") : modal === "editText" ? t("editTextTitle") : t("renameImageTitle")}
+              {t(MODAL_TITLE[modal])}
             </div>
 
             {modal === "tags" && (
@@ -1116,13 +3797,7 @@ useEffect(() => {
                 <div className="cv-muted" style={{ marginBottom: 8 }}>
                   {t("tagsHelp")}
                 </div>
-                <input
-                  className="cv-input cv-nodrag"
-                  value={tagsDraft}
-                  onChange={(e) => setTagsDraft(e.target.value)}
-                  placeholder={t("tagsHelp")}
-                  autoFocus
-                />
+                <TagInput value={tagsDraft} onChange={setTagsDraft} tags={allTags} placeholder={t("tagsHelp")} autoFocus />
                 <div className="cv-modal-actions">
                   <button className="cv-btn cv-nodrag" onClick={saveTags}>
                     {t("save")}
@@ -1136,6 +3811,7 @@ useEffect(() => {
 
             {modal === "editText" && (
               <>
+                {!editHighlight ? (
                 <textarea
                    className="cv-input cv-nodrag"
   style={{
@@ -1148,6 +3824,24 @@ useEffect(() => {
   onChange={(e) => setEditDraft(e.target.value)}
   autoFocus
                 />
+                ) : (
+                  <CodeEditor value={editDraft} onChange={setEditDraft} language={editHighlight} />
+                )}
+                <div className="cv-row">
+                  <span className="cv-muted">{t("codeLanguage")}</span>
+                  <select className="cv-input cv-nodrag" value={editLanguage} onChange={(e) => setEditLanguage(e.target.value)}>
+                    <option value="auto">
+                      {t("languageAuto")}
+                      {!modalItem?.languageManual && modalItem?.language ? ` (${languageLabel(modalItem.language)})` : ""}
+                    </option>
+                    <option value="">{t("languagePlain")}</option>
+                    {CODE_LANGUAGES.map((l) => (
+                      <option key={l.id} value={l.id}>
+                        {l.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
                 <div className="cv-modal-actions">
                   <button className="cv-btn cv-nodrag" onClick={saveEditText}>
                     {t("save")}
@@ -1178,6 +3872,317 @@ useEffect(() => {
                 </div>
               </>
             )}
+
+            {modal === "snippet" && (
+              <>
+                <input
+                  className="cv-input cv-nodrag"
+                  value={snippetNameDraft}
+                  onChange={(e) => setSnippetNameDraft(e.target.value)}
+                  placeholder={t("snippetName")}
+                  autoFocus
+                />
+                <textarea
+                  className="cv-input cv-nodrag"
+                  style={{ minHeight: 140, height: 140, resize: "vertical", overflow: "auto", marginTop: 8 }}
+                  value={snippetBodyDraft}
+                  onChange={(e) => setSnippetBodyDraft(e.target.value)}
+                  placeholder={t("snippetBody")}
+                  spellCheck={false}
+                />
+                <div className="cv-muted" style={{ marginTop: 6 }}>
+                  {t("snippetsHelp")}
+                </div>
+                {snippetMsg && <div className="cv-search-error">{snippetMsg}</div>}
+                <div className="cv-modal-actions">
+                  <button className="cv-btn cv-nodrag" onClick={saveSnippet}>
+                    {t("save")}
+                  </button>
+                  <button className="cv-btn cv-nodrag" onClick={closeModal}>
+                    {t("cancel")}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {modal === "snippetFill" && modalSnippet && (
+              <>
+                <div className="cv-muted" style={{ marginBottom: 8 }}>
+                  {modalSnippet.name}
+                </div>
+                {modalSnippet.inputs.map((name, i) => (
+                  <label key={name} className="cv-field">
+                    <span className="cv-muted">{name}</span>
+                    <input
+                      className="cv-input cv-nodrag"
+                      value={snippetInputs[name] ?? ""}
+                      onChange={(e) => setSnippetInputs((prev) => ({ ...prev, [name]: e.target.value }))}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") submitSnippetFill();
+                      }}
+                      autoFocus={i === 0}
+                    />
+                  </label>
+                ))}
+                <div className="cv-modal-actions">
+                  <button className="cv-btn cv-nodrag" onClick={submitSnippetFill}>
+                    {enterPastes ? t("paste") : t("copy")}
+                  </button>
+                  <button className="cv-btn cv-nodrag" onClick={closeModal}>
+                    {t("cancel")}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {modal === "transform" && modalItem && (
+              <>
+                {TRANSFORM_GROUPS.map((g) => (
+                  <div key={g} className="cv-row" style={{ flexWrap: "wrap" }}>
+                    <span className="cv-label">{t(`tg_${g}`)}</span>
+                    {TRANSFORMS.filter((tr) => tr.group === g).map((tr) => (
+                      <button
+                        key={tr.id}
+                        className="cv-icon cv-nodrag"
+                        onMouseEnter={() => setTransformHover(tr.id)}
+                        onMouseLeave={() => setTransformHover(null)}
+                        onClick={() => applyTransform(tr.id)}
+                      >
+                        {t(`tr_${tr.id}`)}
+                      </button>
+                    ))}
+                  </div>
+                ))}
+
+                {(() => {
+                  if (!transformHover) return <div className="cv-muted">{t("transformHint")}</div>;
+                  const res = runTransform(transformHover, modalItem.text ?? "");
+                  return res.ok ? (
+                    <pre className="cv-text-preview">{res.text}</pre>
+                  ) : (
+                    <div className="cv-search-error">{res.reason}</div>
+                  );
+                })()}
+                {transformMsg && <div className="cv-search-error">{transformMsg}</div>}
+
+                <div className="cv-modal-actions">
+                  <label className="cv-muted">
+                    <input
+                      className="cv-nodrag"
+                      type="checkbox"
+                      checked={transformSave}
+                      onChange={(e) => setTransformSave(e.target.checked)}
+                    />{" "}
+                    {t("saveAsClip")}
+                  </label>
+                  <button className="cv-btn cv-nodrag" onClick={closeModal}>
+                    {t("cancel")}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {modal === "merge" && (
+              <>
+                <div className="cv-row">
+                  <span className="cv-label">{t("separator")}</span>
+                  <select
+                    className="cv-input cv-nodrag"
+                    value={mergeSeparator}
+                    onChange={(e) => setMergeSeparator(e.target.value)}
+                  >
+                    {[...Object.keys(MERGE_SEPARATORS), "custom"].map((k) => (
+                      <option key={k} value={k}>
+                        {t(`sep_${k}`)}
+                      </option>
+                    ))}
+                  </select>
+                  {mergeSeparator === "custom" && (
+                    <input
+                      className="cv-input cv-nodrag"
+                      value={mergeCustom}
+                      onChange={(e) => setMergeCustom(e.target.value)}
+                      placeholder="\n"
+                      spellCheck={false}
+                    />
+                  )}
+                </div>
+                <div className="cv-row">
+                  <span className="cv-label">{t("order")}</span>
+                  <select
+                    className="cv-input cv-nodrag"
+                    value={mergeOrder}
+                    onChange={(e) => setMergeOrder(e.target.value as MergeOrder)}
+                  >
+                    {(["selection", "oldest", "newest"] as MergeOrder[]).map((o) => (
+                      <option key={o} value={o}>
+                        {t(`order_${o}`)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <label className="cv-muted">
+                  <input
+                    className="cv-nodrag"
+                    type="checkbox"
+                    checked={mergeDeleteSources}
+                    onChange={(e) => setMergeDeleteSources(e.target.checked)}
+                  />{" "}
+                  {t("deleteSources")}
+                </label>
+                {pickedText.length < pickedItems.length && <div className="cv-muted">{t("mergeNotText")}</div>}
+                <pre className="cv-text-preview">{mergePreview()}</pre>
+                {batchMsg && <div className="cv-search-error">{batchMsg}</div>}
+                <div className="cv-modal-actions">
+                  <button className="cv-btn cv-nodrag" disabled={pickedText.length < 2} onClick={submitMerge}>
+                    {t("merge")}
+                  </button>
+                  <button className="cv-btn cv-nodrag" onClick={closeModal}>
+                    {t("cancel")}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {modal === "bulkTags" && (
+              <>
+                <div className="cv-muted" style={{ marginBottom: 8 }}>
+                  {t("nSelected").replace("{n}", String(pickedItems.length))} • {t("tagsHelp")}
+                </div>
+                <label className="cv-field">
+                  <span className="cv-muted">{t("addTags")}</span>
+                  <TagInput value={addTagsDraft} onChange={setAddTagsDraft} tags={allTags} autoFocus />
+                </label>
+                <label className="cv-field">
+                  <span className="cv-muted">{t("removeTags")}</span>
+                  <TagInput value={removeTagsDraft} onChange={setRemoveTagsDraft} tags={allTags} />
+                </label>
+                {batchMsg && <div className="cv-search-error">{batchMsg}</div>}
+                <div className="cv-modal-actions">
+                  <button className="cv-btn cv-nodrag" onClick={submitBulkTags}>
+                    {t("save")}
+                  </button>
+                  <button className="cv-btn cv-nodrag" onClick={closeModal}>
+                    {t("cancel")}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {modal === "clearAll" && (
+              <>
+                <div className="cv-muted">{t("clearAllHelp")}</div>
+                <label className="cv-muted">
+                  <input
+                    className="cv-nodrag"
+                    type="checkbox"
+                    checked={keepPinned}
+                    onChange={(e) => setKeepPinned(e.target.checked)}
+                  />{" "}
+                  {t("keepPinned")}
+                </label>
+                <div className="cv-modal-actions">
+                  <button className="cv-btn danger cv-nodrag" onClick={onClearAll} autoFocus>
+                    {t("moveToTrash")}
+                  </button>
+                  <button className="cv-btn cv-nodrag" onClick={closeModal}>
+                    {t("cancel")}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {modal === "collection" && (
+              <>
+                <input
+                  className="cv-input cv-nodrag"
+                  value={collectionDraft}
+                  onChange={(e) => setCollectionDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") saveCollection();
+                  }}
+                  placeholder={t("collectionName")}
+                  autoFocus
+                />
+                {collectionMsg && <div className="cv-search-error">{collectionMsg}</div>}
+                <div className="cv-modal-actions">
+                  <button className="cv-btn cv-nodrag" onClick={saveCollection}>
+                    {t("save")}
+                  </button>
+                  <button className="cv-btn cv-nodrag" onClick={closeModal}>
+                    {t("cancel")}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {modal === "colors" && modalItem && (
+              <>
+                <div className="cv-row" style={{ flexWrap: "wrap" }}>
+                  {colorLabels.map((label, i) => (
+                    <button
+                      key={i}
+                      className={"cv-btn cv-nodrag" + (borderDraft.toLowerCase() === label.color ? " active" : "")}
+                      style={{ borderColor: label.color }}
+                      onClick={() => setBorderDraft(label.color)}
+                    >
+                      <span className="cv-swatch" style={{ background: label.color }} /> {label.name.trim() || label.color}
+                    </button>
+                  ))}
+                  <button
+                    className="cv-btn cv-nodrag"
+                    onClick={() => {
+                      setBorderDraft("");
+                      setBgDraft("");
+                    }}
+                  >
+                    {t("noColor")}
+                  </button>
+                </div>
+
+                <ColorRowHex
+                  label={t("borderColorLabel")}
+                  value={borderDraft || theme.itemBorder}
+                  onChange={setBorderDraft}
+                  onPickerOpenChange={setColorPickerOpen}
+                />
+                <ColorRowHex
+                  label={t("bgColorLabel")}
+                  value={bgDraft || theme.itemBg}
+                  onChange={setBgDraft}
+                  onPickerOpenChange={setColorPickerOpen}
+                />
+
+                <div className="cv-modal-actions">
+                  <button className="cv-btn cv-nodrag" onClick={saveColors}>
+                    {t("save")}
+                  </button>
+                  <button className="cv-btn cv-nodrag" onClick={closeModal}>
+                    {t("cancel")}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {modal === "preview" && modalItem?.imageUrl && (
+              <>
+                <img className="cv-preview-img cv-nodrag" src={modalItem.imageUrl} alt={modalItem.imageName ?? "clipboard"} />
+                <div className="cv-modal-actions">
+                  <button
+                    className="cv-btn cv-nodrag"
+                    onClick={async () => {
+                      await copyItem(modalItem);
+                      closeModal();
+                    }}
+                  >
+                    {t("copy")}
+                  </button>
+                  <button className="cv-btn cv-nodrag" onClick={closeModal}>
+                    {t("close")}
+                  </button>
+                </div>
+              </>
+            )}
           </div>
         </div>
       )}
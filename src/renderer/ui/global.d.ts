@@ -13,10 +13,14 @@ declare global {
       onPopupOpened: (cb: () => void) => () => void;
       onSettingsUpdated: (cb: (s: any) => void) => () => void;
       onHistoryUpdated: (cb: () => void) => () => void;
+      onVaultUpdated: (cb: (s: { enabled: boolean; locked: boolean }) => void) => () => void;
 
       showPopup: () => Promise<any>;
       hidePopup: () => Promise<any>;
       minimizePopup: () => Promise<any>;
+      openUrl: (url: string) => Promise<{ ok: boolean; reason?: string }>;
+      getPasteSupport: () => Promise<{ name: string; reason: string }>;
+      pasteIntoPreviousApp: (cursorBack?: number) => Promise<{ ok: boolean; reason?: string }>;
 
       setInteractionState: (partial: {
         isSettingsOpen?: boolean;
@@ -33,13 +37,71 @@ declare global {
       getStartAtLogin: () => Promise<{ ok: boolean; value: boolean }>;
       setStartAtLogin: (openAtLogin: boolean) => Promise<{ ok: boolean }>;
 
-      getHistory: (q: string) => Promise<any[]>;
-      deleteClip: (id: string) => Promise<any>;
-      clearAll: () => Promise<any>;
+      getHistory: (
+        q: string,
+        page?: { cursor?: string; limit?: number; collectionId?: string; trash?: boolean }
+      ) => Promise<{ ok: true; items: any[]; nextCursor?: string } | { ok: false; reason: string }>;
+
+      listTags: () => Promise<{ ok: boolean; tags?: { name: string; count: number }[]; reason?: string }>;
+      renameTag: (from: string, to: string) => Promise<{ ok: boolean; changed?: number; reason?: string }>;
+      mergeTags: (names: string[], into: string) => Promise<{ ok: boolean; changed?: number; reason?: string }>;
+      deleteTag: (name: string) => Promise<{ ok: boolean; changed?: number; reason?: string }>;
+
+      listCollections: () => Promise<{ ok: boolean; collections?: any[]; reason?: string }>;
+      createCollection: (name: string) => Promise<{ ok: boolean; id?: string; reason?: string }>;
+      renameCollection: (id: string, name: string) => Promise<{ ok: boolean; reason?: string }>;
+      deleteCollection: (id: string) => Promise<{ ok: boolean }>;
+      addToCollection: (collectionId: string, clipIds: string[]) => Promise<{ ok: boolean; added?: number; reason?: string }>;
+      removeFromCollection: (collectionId: string, clipIds: string[]) => Promise<{ ok: boolean }>;
+      moveInCollection: (collectionId: string, clipId: string, overId: string) => Promise<{ ok: boolean; reason?: string }>;
+      getStorageInfo: (policy?: any) => Promise<any>;
+      pruneNow: () => Promise<{ ok: boolean; removed?: number; reason?: string }>;
+
+      listSnippets: () => Promise<{ ok: boolean; snippets?: any[]; reason?: string }>;
+      searchSnippets: (query: string) => Promise<{ ok: boolean; snippets?: any[]; reason?: string }>;
+      saveSnippet: (input: { id?: string; name: string; body: string }) => Promise<{ ok: boolean; id?: string; reason?: string }>;
+      deleteSnippet: (id: string) => Promise<{ ok: boolean }>;
+      useSnippet: (
+        id: string,
+        inputs: Record<string, string>
+      ) => Promise<{ ok: true; text: string; cursorBack: number } | { ok: false; reason: string }>;
+
+      testExclusions: (rules: any[]) => Promise<any>;
+      excludeLikeClip: (id: string) => Promise<{ ok: boolean; rule?: any; reason?: string }>;
+
+      exportBackup: (ids?: string[]) => Promise<any>;
+      importBackup: (mode: "merge" | "replace") => Promise<any>;
+
+      getVaultStatus: () => Promise<{ enabled: boolean; locked: boolean }>;
+      unlockVault: (passphrase: string) => Promise<{ ok: boolean; reason?: string }>;
+      lockVault: () => Promise<{ ok: boolean }>;
+      enableVault: (passphrase: string) => Promise<{ ok: boolean; reason?: string }>;
+      disableVault: (passphrase: string) => Promise<{ ok: boolean; reason?: string }>;
+
+      deleteClip: (id: string) => Promise<{ ok: boolean; ids: string[] }>;
+      clearAll: (opts: { keepPinned: boolean }) => Promise<{ ok: boolean; ids: string[] }>;
+      restoreClips: (ids: string[]) => Promise<{ ok: true; restored: number } | { ok: false; reason: string }>;
+      purgeClips: (ids: string[]) => Promise<{ ok: boolean; removed: number }>;
+      emptyTrash: () => Promise<{ ok: boolean; removed: number }>;
+      trashCount: () => Promise<number>;
       togglePin: (id: string) => Promise<any>;
+      movePinned: (clipId: string, overId: string) => Promise<{ ok: boolean; reason?: string }>;
       setTags: (id: string, tags: string[]) => Promise<any>;
+      deleteClips: (ids: string[]) => Promise<{ ok: boolean; removed?: number; ids?: string[] }>;
+      setClipsPinned: (ids: string[], pinned: boolean) => Promise<{ ok: boolean }>;
+      updateClipsTags: (ids: string[], change: { add?: string[]; remove?: string[] }) => Promise<{ ok: boolean; reason?: string }>;
+      mergeClips: (
+        ids: string[],
+        opts: { separator: string; order: "selection" | "oldest" | "newest"; deleteSources: boolean }
+      ) => Promise<{ ok: true; id: string; merged: number } | { ok: false; reason: string }>;
       updateClipText: (id: string, text: string) => Promise<any>;
       renameClip: (id: string, name: string) => Promise<any>;
+      setClipColors: (
+        id: string,
+        colors: { borderColor?: string | null; bgColor?: string | null }
+      ) => Promise<{ ok: boolean; reason?: string }>;
+      setClipLanguage: (id: string, language: string | null) => Promise<{ ok: boolean; reason?: string }>;
+      addTextClip: (text: string) => Promise<{ ok: boolean; reason?: string }>;
       setClipboard: (payload: any) => Promise<any>;
             onCopied: () => Promise<void>;
 
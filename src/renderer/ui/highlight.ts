@@ -0,0 +1,87 @@
+// ============================
+// FILE: src/renderer/ui/highlight.ts
+// Syntax highlighting and Markdown fences for code clips (highlight.js core + a fixed language set)
+// ============================
+//
+// The main process guesses each code clip's language (main/codeLanguage.ts); this only renders it.
+// highlight.js escapes the text itself, so its output is safe to set as innerHTML.
+
+import hljs from "highlight.js/lib/core";
+import bash from "highlight.js/lib/languages/bash";
+import c from "highlight.js/lib/languages/c";
+import cpp from "highlight.js/lib/languages/cpp";
+import csharp from "highlight.js/lib/languages/csharp";
+import css from "highlight.js/lib/languages/css";
+import diff from "highlight.js/lib/languages/diff";
+import dockerfile from "highlight.js/lib/languages/dockerfile";
+import go from "highlight.js/lib/languages/go";
+import ini from "highlight.js/lib/languages/ini";
+import java from "highlight.js/lib/languages/java";
+import javascript from "highlight.js/lib/languages/javascript";
+import json from "highlight.js/lib/languages/json";
+import kotlin from "highlight.js/lib/languages/kotlin";
+import markdown from "highlight.js/lib/languages/markdown";
+import php from "highlight.js/lib/languages/php";
+import powershell from "highlight.js/lib/languages/powershell";
+import python from "highlight.js/lib/languages/python";
+import ruby from "highlight.js/lib/languages/ruby";
+import rust from "highlight.js/lib/languages/rust";
+import sql from "highlight.js/lib/languages/sql";
+import swift from "highlight.js/lib/languages/swift";
+import typescript from "highlight.js/lib/languages/typescript";
+import xml from "highlight.js/lib/languages/xml";
+import yaml from "highlight.js/lib/languages/yaml";
+
+// must match CODE_LANGUAGES in main/codeLanguage.ts; label is what the language picker shows
+export const CODE_LANGUAGES = [
+  { id: "bash", label: "Shell", fn: bash },
+  { id: "c", label: "C", fn: c },
+  { id: "cpp", label: "C++", fn: cpp },
+  { id: "csharp", label: "C#", fn: csharp },
+  { id: "css", label: "CSS", fn: css },
+  { id: "diff", label: "Diff", fn: diff },
+  { id: "dockerfile", label: "Dockerfile", fn: dockerfile },
+  { id: "go", label: "Go", fn: go },
+  { id: "ini", label: "INI / TOML", fn: ini },
+  { id: "java", label: "Java", fn: java },
+  { id: "javascript", label: "JavaScript", fn: javascript },
+  { id: "json", label: "JSON", fn: json },
+  { id: "kotlin", label: "Kotlin", fn: kotlin },
+  { id: "markdown", label: "Markdown", fn: markdown },
+  { id: "php", label: "PHP", fn: php },
+  { id: "powershell", label: "PowerShell", fn: powershell },
+  { id: "python", label: "Python", fn: python },
+  { id: "ruby", label: "Ruby", fn: ruby },
+  { id: "rust", label: "Rust", fn: rust },
+  { id: "sql", label: "SQL", fn: sql },
+  { id: "swift", label: "Swift", fn: swift },
+  { id: "typescript", label: "TypeScript", fn: typescript },
+  { id: "xml", label: "HTML / XML", fn: xml },
+  { id: "yaml", label: "YAML", fn: yaml },
+];
+
+for (const l of CODE_LANGUAGES) hljs.registerLanguage(l.id, l.fn);
+
+// highlighting is per keystroke in the editor; past this the text is shown plain
+const MAX_HIGHLIGHT = 100_000;
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function languageLabel(id: string | undefined) {
+  return CODE_LANGUAGES.find((l) => l.id === id)?.label ?? id ?? "";
+}
+
+// HTML for a <pre>; plain escaped text when the language is unknown
+export function highlightCode(text: string, language: string | undefined) {
+  if (!language || !hljs.getLanguage(language) || text.length > MAX_HIGHLIGHT) return escapeHtml(text);
+  return hljs.highlight(text, { language, ignoreIllegals: true }).value;
+}
+
+// ```lang fenced block; the fence outgrows any backtick run inside the text
+export function fencedMarkdown(text: string, language: string | undefined) {
+  const longest = Math.max(0, ...(text.match(/`{3,}/g) ?? []).map((m) => m.length));
+  const fence = "`".repeat(Math.max(3, longest + 1));
+  return `${fence}${language ?? ""}\n${text.replace(/\n$/, "")}\n${fence}`;
+}
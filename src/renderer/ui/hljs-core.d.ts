@@ -0,0 +1,5 @@
+// highlight.js ships types for its main entry and the language modules, not for the core build
+declare module "highlight.js/lib/core" {
+  import hljs from "highlight.js";
+  export default hljs;
+}
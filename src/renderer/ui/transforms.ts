@@ -0,0 +1,144 @@
+// ============================
+// FILE: src/renderer/ui/transforms.ts
+// "Copy as…" text transforms (pure, no DOM or IPC)
+// ============================
+//
+// Each transform maps a clip's text to new text, or throws an Error whose message
+// is shown to the user (e.g. JSON that does not parse). The stored clip never changes.
+
+export type TransformId =
+  | "upper"
+  | "lower"
+  | "title"
+  | "trim"
+  | "collapse"
+  | "sortLines"
+  | "dedupeLines"
+  | "jsonPretty"
+  | "jsonMinify"
+  | "base64Encode"
+  | "base64Decode"
+  | "urlEncode"
+  | "urlDecode"
+  | "escapeShell"
+  | "escapeJson"
+  | "escapeRegex"
+  | "slugify";
+
+export type TransformGroup = "case" | "whitespace" | "lines" | "json" | "encode" | "escape";
+
+export type Transform = {
+  id: TransformId;
+  group: TransformGroup;
+  apply: (text: string) => string;
+};
+
+// keeps a trailing newline where it was, so line operations don't sort it to the top,
+// and writes CRLF back when the text came with it
+function mapLines(text: string, fn: (lines: string[]) => string[]) {
+  const eol = text.includes("\r\n") ? "\r\n" : "\n";
+  const trailing = /\r?\n$/.test(text);
+  const lines = text.replace(/\r?\n$/, "").split(/\r?\n/);
+  return fn(lines).join(eol) + (trailing ? eol : "");
+}
+
+function toBase64(text: string) {
+  let bin = "";
+  for (const b of new TextEncoder().encode(text)) bin += String.fromCharCode(b);
+  return btoa(bin);
+}
+
+function fromBase64(text: string) {
+  // accepts the URL-safe alphabet and missing padding
+  const b64 = text.replace(/\s+/g, "").replace(/-/g, "+").replace(/_/g, "/");
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(b64) || b64.length % 4 === 1) throw new Error("Not valid Base64");
+
+  const bin = atob(b64.padEnd(Math.ceil(b64.length / 4) * 4, "="));
+  const bytes = Uint8Array.from(bin, (c) => c.charCodeAt(0));
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    throw new Error("Base64 does not decode to text");
+  }
+}
+
+function parseJson(text: string) {
+  try {
+    return JSON.parse(text);
+  } catch (err: any) {
+    throw new Error(`Not valid JSON: ${err?.message ?? err}`);
+  }
+}
+
+export const TRANSFORMS: Transform[] = [
+  { id: "upper", group: "case", apply: (s) => s.toUpperCase() },
+  { id: "lower", group: "case", apply: (s) => s.toLowerCase() },
+  {
+    id: "title",
+    group: "case",
+    // combining marks stay in the word; the first letter may be two UTF-16 units
+    apply: (s) =>
+      s.toLowerCase().replace(/\p{L}[\p{L}\p{M}\p{N}'’]*/gu, (w) => {
+        const first = String.fromCodePoint(w.codePointAt(0)!);
+        return first.toUpperCase() + w.slice(first.length);
+      }),
+  },
+
+  // every line, and blank lines at both ends
+  { id: "trim", group: "whitespace", apply: (s) => mapLines(s.trim(), (lines) => lines.map((l) => l.trim())).trim() },
+  { id: "collapse", group: "whitespace", apply: (s) => s.replace(/\s+/g, " ").trim() },
+
+  {
+    id: "sortLines",
+    group: "lines",
+    apply: (s) => mapLines(s, (lines) => [...lines].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))),
+  },
+  { id: "dedupeLines", group: "lines", apply: (s) => mapLines(s, (lines) => [...new Set(lines)]) },
+
+  { id: "jsonPretty", group: "json", apply: (s) => JSON.stringify(parseJson(s), null, 2) },
+  { id: "jsonMinify", group: "json", apply: (s) => JSON.stringify(parseJson(s)) },
+
+  { id: "base64Encode", group: "encode", apply: toBase64 },
+  { id: "base64Decode", group: "encode", apply: fromBase64 },
+  { id: "urlEncode", group: "encode", apply: (s) => encodeURIComponent(s) },
+  {
+    id: "urlDecode",
+    group: "encode",
+    apply: (s) => {
+      try {
+        // form encoding writes spaces as +
+        return decodeURIComponent(s.replace(/\+/g, " "));
+      } catch {
+        throw new Error("Not valid URL encoding");
+      }
+    },
+  },
+
+  // POSIX sh: one single-quoted word
+  { id: "escapeShell", group: "escape", apply: (s) => `'${s.replace(/'/g, `'\\''`)}'` },
+  // the inside of a JSON string literal
+  { id: "escapeJson", group: "escape", apply: (s) => JSON.stringify(s).slice(1, -1) },
+  { id: "escapeRegex", group: "escape", apply: (s) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&") },
+
+  {
+    id: "slugify",
+    group: "escape",
+    apply: (s) =>
+      s
+        .normalize("NFKD")
+        .replace(/\p{M}+/gu, "")
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, "-")
+        .replace(/^-+|-+$/g, ""),
+  },
+];
+
+export function runTransform(id: TransformId, text: string): { ok: true; text: string } | { ok: false; reason: string } {
+  const tr = TRANSFORMS.find((x) => x.id === id);
+  if (!tr) return { ok: false, reason: `Unknown transform "${id}"` };
+  try {
+    return { ok: true, text: tr.apply(text) };
+  } catch (err: any) {
+    return { ok: false, reason: err?.message ?? String(err) };
+  }
+}
@@ -0,0 +1,130 @@
+// ============================
+// FILE: src/renderer/ui/useVirtualList.ts
+// Windowed rendering for the history list (variable row heights)
+// ============================
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+
+type Options = {
+  count: number;
+  getKey: (index: number) => string;
+  // used for rows that have not been rendered yet
+  estimateHeight: number;
+  // extra pixels rendered above and below the viewport
+  overscanPx?: number;
+};
+
+export function useVirtualList<T extends HTMLElement>({ count, getKey, estimateHeight, overscanPx = 600 }: Options) {
+  const scrollRef = useRef<T | null>(null);
+  const heights = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  // rows report their real height (images load late, text wraps on resize)
+  const observer = useMemo(
+    () =>
+      new ResizeObserver((entries) => {
+        let changed = false;
+        for (const e of entries) {
+          const el = e.target as HTMLElement;
+          const key = el.dataset.vkey;
+          if (!key) continue;
+          const h = el.offsetHeight;
+          if (heights.current.get(key) !== h) {
+            heights.current.set(key, h);
+            changed = true;
+          }
+        }
+        if (changed) setMeasureVersion((v) => v + 1);
+      }),
+    []
+  );
+
+  useEffect(() => () => observer.disconnect(), [observer]);
+
+  // rows scrolled out of the window unmount; stop observing them
+  const observed = useRef(new Set<HTMLElement>());
+  useEffect(() => {
+    for (const el of observed.current) {
+      if (el.isConnected) continue;
+      observer.unobserve(el);
+      observed.current.delete(el);
+    }
+  });
+
+  const offsets = useMemo(() => {
+    const out = new Array<number>(count + 1);
+    out[0] = 0;
+    for (let i = 0; i < count; i++) {
+      out[i + 1] = out[i] + (heights.current.get(getKey(i)) ?? estimateHeight);
+    }
+    return out;
+  }, [count, getKey, estimateHeight, measureVersion]);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    const sync = () => setViewport({ top: el.scrollTop, height: el.clientHeight });
+    sync();
+
+    const ro = new ResizeObserver(sync);
+    ro.observe(el);
+    el.addEventListener("scroll", sync, { passive: true });
+    return () => {
+      ro.disconnect();
+      el.removeEventListener("scroll", sync);
+    };
+  }, []);
+
+  // first row whose bottom edge is below y
+  const indexAt = useCallback(
+    (y: number) => {
+      let lo = 0;
+      let hi = count;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (offsets[mid + 1] <= y) lo = mid + 1;
+        else hi = mid;
+      }
+      return lo;
+    },
+    [offsets, count]
+  );
+
+  const start = Math.min(indexAt(viewport.top - overscanPx), count);
+  const end = Math.min(indexAt(viewport.top + viewport.height + overscanPx) + 1, count);
+
+  const measureRef = useCallback(
+    (el: HTMLElement | null) => {
+      if (!el || observed.current.has(el)) return;
+      observed.current.add(el);
+      observer.observe(el);
+    },
+    [observer]
+  );
+
+  // keyboard navigation: scroll just enough to bring a row into view
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const el = scrollRef.current;
+      if (!el || index < 0 || index >= count) return;
+
+      const top = offsets[index];
+      const bottom = offsets[index + 1];
+      if (top < el.scrollTop) el.scrollTop = top;
+      else if (bottom > el.scrollTop + el.clientHeight) el.scrollTop = bottom - el.clientHeight;
+    },
+    [offsets, count]
+  );
+
+  return {
+    scrollRef,
+    measureRef,
+    scrollToIndex,
+    start,
+    end,
+    padTop: offsets[start] ?? 0,
+    padBottom: (offsets[count] ?? 0) - (offsets[end] ?? 0),
+  };
+}